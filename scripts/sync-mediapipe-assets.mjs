@@ -0,0 +1,131 @@
+// Copies the MediaPipe WASM fileset out of node_modules and downloads the pinned
+// pose landmarker models into public/mediapipe, so the app never fetches them at runtime.
+// Assets already in place are left alone; models are checked against the SHA-256
+// sums in mediapipe-models.sha256 once they are pinned there.
+//
+//   --optional  warn instead of failing, so `npm run dev` still starts offline
+//   --pin       record the sums of the models on disk (after a trusted download)
+import { createHash } from 'node:crypto';
+import { access, cp, mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const outDir = join(root, 'public', 'mediapipe');
+const sumsFile = join(root, 'scripts', 'mediapipe-models.sha256');
+const optional = process.argv.includes('--optional');
+const pin = process.argv.includes('--pin');
+
+// Bump together with POSE_MODEL_VERSION in src/lib/pose-detection.ts
+const MODEL_VERSION = 1;
+const MODEL_VARIANTS = ['lite', 'full', 'heavy'];
+
+const modelName = (variant) => `v${MODEL_VERSION}/pose_landmarker_${variant}.task`;
+const modelUrl = (variant) =>
+  `https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_${variant}/float16/${MODEL_VERSION}/pose_landmarker_${variant}.task`;
+
+const exists = (path) => access(path).then(() => true, () => false);
+const sha256 = (data) => createHash('sha256').update(data).digest('hex');
+
+let failed = false;
+const fail = (...lines) => {
+  lines.forEach((line) => (optional ? console.warn(line) : console.error(line)));
+  failed = true;
+};
+
+// sha256sum format: "<hex>  <name>"
+const readSums = async () => {
+  const text = await readFile(sumsFile, 'utf8').catch(() => '');
+  return new Map(
+    text
+      .split('\n')
+      .map((line) => line.trim().split(/\s+/))
+      .filter(([hash, name]) => hash && name && !hash.startsWith('#'))
+      .map(([hash, name]) => [name, hash])
+  );
+};
+
+const syncWasm = async () => {
+  const source = join(root, 'node_modules', '@mediapipe', 'tasks-vision');
+  const { version } = JSON.parse(await readFile(join(source, 'package.json'), 'utf8'));
+  const marker = join(outDir, 'wasm', 'VERSION');
+  if ((await readFile(marker, 'utf8').catch(() => null)) === version) return;
+
+  await cp(join(source, 'wasm'), join(outDir, 'wasm'), { recursive: true });
+  await writeFile(marker, version);
+  console.log(`Copied MediaPipe WASM ${version}`);
+};
+
+const syncModel = async (variant, expected) => {
+  const name = modelName(variant);
+  const target = join(outDir, 'models', name);
+
+  if (await exists(target)) {
+    // Until the sums are pinned, a model already in place is used unverified
+    if (!expected || sha256(await readFile(target)) === expected) return;
+    console.warn(`${name} does not match its pinned SHA-256; downloading it again`);
+  } else if (!expected) {
+    console.warn(`No pinned SHA-256 for ${name} in scripts/mediapipe-models.sha256; downloading it unverified`);
+  }
+
+  const response = await fetch(modelUrl(variant)).catch((error) => ({ ok: false, statusText: error.message }));
+  if (!response.ok) {
+    fail(`Failed to download ${name}: ${response.statusText}`, `Place the file at ${target} manually to build offline.`);
+    return;
+  }
+
+  const data = Buffer.from(await response.arrayBuffer());
+  const actual = sha256(data);
+  if (expected && actual !== expected) {
+    fail(`Refusing ${name}: SHA-256 ${actual} does not match the pinned ${expected}`);
+    return;
+  }
+
+  await writeFile(target, data);
+  console.log(`Downloaded ${name}`);
+  if (!expected) {
+    console.warn(`Run \`npm run assets -- --pin\` to record its SHA-256 (${actual}) once you trust it.`);
+  }
+};
+
+const pinModels = async () => {
+  const lines = [];
+  for (const variant of MODEL_VARIANTS) {
+    const name = modelName(variant);
+    const target = join(outDir, 'models', name);
+    if (!(await exists(target))) {
+      fail(`Cannot pin ${name}: ${target} is missing`);
+      continue;
+    }
+    lines.push(`${sha256(await readFile(target))}  ${name}`);
+  }
+  if (!failed) {
+    await writeFile(sumsFile, `${lines.join('\n')}\n`);
+    console.log(`Pinned ${lines.length} models in scripts/mediapipe-models.sha256`);
+  }
+};
+
+try {
+  await syncWasm();
+} catch (error) {
+  fail(`Failed to copy the MediaPipe WASM fileset: ${error.message}`);
+}
+
+await mkdir(join(outDir, 'models', `v${MODEL_VERSION}`), { recursive: true });
+
+if (pin) {
+  await pinModels();
+} else {
+  const sums = await readSums();
+  for (const variant of MODEL_VARIANTS) {
+    await syncModel(variant, sums.get(modelName(variant)));
+  }
+}
+
+if (failed) {
+  if (optional) {
+    console.warn('Pose detection will be unavailable until `npm run assets` succeeds.');
+  } else {
+    process.exit(1);
+  }
+}
@@ -1,9 +1,10 @@
 import React, { useRef, useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Camera, CameraOff, Loader2 } from 'lucide-react';
+import { Camera, CameraOff, Loader2, Rotate3d } from 'lucide-react';
 import { usePoseStore } from '@/store/pose-store';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CAMERA_VIEW_LABELS, TURN_PROMPTS } from '@/lib/camera-view';
 
 interface CameraFeedProps {
   onStreamReady?: (stream: MediaStream) => void;
@@ -19,8 +20,11 @@ export const CameraFeed: React.FC<CameraFeedProps> = ({ onStreamReady }) => {
     isCameraActive, 
     setCameraActive, 
     videoElement, 
-    setVideoElement 
+    setVideoElement,
+    setMediaStream,
+    metrics
   } = usePoseStore();
+  const { view } = metrics;
 
   useEffect(() => {
     if (videoRef.current && !videoElement) {
@@ -47,6 +51,7 @@ export const CameraFeed: React.FC<CameraFeedProps> = ({ onStreamReady }) => {
         videoRef.current.play();
         setCameraActive(true);
         setStream(mediaStream);
+        setMediaStream(mediaStream);
         
         if (onStreamReady) {
           onStreamReady(mediaStream);
@@ -65,6 +70,7 @@ export const CameraFeed: React.FC<CameraFeedProps> = ({ onStreamReady }) => {
       stream.getTracks().forEach(track => track.stop());
       setStream(null);
     }
+    setMediaStream(null);
     
     if (videoRef.current) {
       videoRef.current.srcObject = null;
@@ -162,6 +168,29 @@ export const CameraFeed: React.FC<CameraFeedProps> = ({ onStreamReady }) => {
         </motion.div>
       )}
 
+      {/* Detected camera view, with a prompt when the exercise needs the other one */}
+      {isCameraActive && view.current && (
+        <motion.div
+          key={view.shouldTurn ? 'turn' : view.current}
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="absolute top-4 left-1/2 -translate-x-1/2 z-20"
+        >
+          <div
+            className={`
+              flex items-center gap-2 rounded-full border px-3 py-1 text-xs backdrop-blur-sm
+              ${view.shouldTurn
+                ? 'bg-warning/20 border-warning/30 text-warning-foreground'
+                : 'bg-card/90 border-border text-muted-foreground'}
+            `}
+          >
+            <Rotate3d className="w-3 h-3" />
+            {CAMERA_VIEW_LABELS[view.current]}
+            {view.shouldTurn && <span className="font-medium">· {TURN_PROMPTS[view.target]}</span>}
+          </div>
+        </motion.div>
+      )}
+
       {/* Privacy indicator */}
       {isCameraActive && (
         <motion.div
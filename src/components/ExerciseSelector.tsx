@@ -1,11 +1,35 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Activity, Target, Clock, CheckCircle } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Activity,
+  Target,
+  Clock,
+  CheckCircle,
+  ClipboardList,
+  Timer,
+  Footprints,
+  Hourglass,
+  Dumbbell,
+  Armchair,
+  AlarmClock,
+  Spline,
+  MoveUp,
+  RotateCw,
+  ChevronsUp,
+  Ruler,
+  PersonStanding
+} from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { usePoseStore, ExerciseType } from '@/store/pose-store';
-import { EXERCISE_CONFIGS } from '@/lib/exercise-rules';
+import { EXERCISE_CONFIGS, ExerciseConfig, PrescribedExercise, createPrescribedConfig } from '@/lib/exercise-rules';
+import { getPrescription } from '@/lib/session-db';
+import { EXERCISE_DEFINITIONS } from '@/lib/exercises';
+import { formatTempo } from '@/lib/tempo';
+import { formatSideSetting } from '@/lib/sides';
+import { formatBalanceCondition } from '@/lib/balance';
 
 interface ExerciseOption {
   id: ExerciseType;
@@ -35,6 +59,132 @@ const exercises: ExerciseOption[] = [
     difficulty: 'Beginner',
     benefits: ['ROM tracking', 'Symmetry check', 'Scapular control'],
     icon: <Target className="w-8 h-8" />
+  },
+  {
+    id: 'shoulderFlexion',
+    name: 'Shoulder Flexion',
+    description: 'Restore overhead reach with side-on tracking of forward elevation and feedback when the trunk leans back to compensate.',
+    duration: '3-6 min',
+    difficulty: 'Beginner',
+    benefits: ['ROM tracking', 'Trunk compensation', 'Elbow straightness'],
+    icon: <MoveUp className="w-8 h-8" />
+  },
+  {
+    id: 'shoulderExternalRotation',
+    name: 'Shoulder External Rotation',
+    description: 'Rotator cuff work with elbows at your sides, measuring outward rotation and catching the elbow drifting away from the body.',
+    duration: '3-6 min',
+    difficulty: 'Beginner',
+    benefits: ['Rotation ROM', 'Elbow drift detection', 'Left/right comparison'],
+    icon: <RotateCw className="w-8 h-8" />
+  },
+  {
+    id: 'lunge',
+    name: 'Lunge',
+    description: 'Train split squats and forward lunges with feedback on depth, knee position and trunk posture.',
+    duration: '3-6 min',
+    difficulty: 'Intermediate',
+    benefits: ['Front knee tracking', 'Back knee drop', 'Left/right alternation'],
+    icon: <Activity className="w-8 h-8" />
+  },
+  {
+    id: 'gluteBridge',
+    name: 'Glute Bridge',
+    description: 'Build hip extension strength from day one with side-on feedback on bridge height, pelvic level and the hold at the top.',
+    duration: '2-5 min',
+    difficulty: 'Beginner',
+    benefits: ['Hip extension angle', 'Pelvic drop check', 'Top hold timing'],
+    icon: <Spline className="w-8 h-8" />
+  },
+  {
+    id: 'heelRaise',
+    name: 'Heel Raise',
+    description: 'Strengthen the calves and Achilles with side-on tracking of ankle angle, heel height and a slow lowering phase.',
+    duration: '2-4 min',
+    difficulty: 'Beginner',
+    benefits: ['Ankle angle', 'Heel lift height', 'Eccentric control'],
+    icon: <ChevronsUp className="w-8 h-8" />
+  },
+  {
+    id: 'singleLegHeelRaise',
+    name: 'Single-Leg Heel Raise',
+    description: 'Progress calf loading to one leg at a time, with checks that the other foot stays up and the standing knee stays straight.',
+    duration: '3-5 min',
+    difficulty: 'Intermediate',
+    benefits: ['Ankle angle', 'Heel lift height', 'Left/right comparison'],
+    icon: <ChevronsUp className="w-8 h-8" />
+  },
+  {
+    id: 'kneeToWall',
+    name: 'Knee-to-Wall Dorsiflexion',
+    description: 'Measure and train ankle dorsiflexion by driving the knee toward a wall while the front heel stays down.',
+    duration: '2-4 min',
+    difficulty: 'Beginner',
+    benefits: ['Dorsiflexion angle', 'Heel lift detection', 'Left/right comparison'],
+    icon: <Ruler className="w-8 h-8" />
+  },
+  {
+    id: 'chairStand30',
+    name: '30-Second Chair Stand',
+    description: 'Standard outcome test counting full stands from a chair in 30 seconds, compared with age norms.',
+    duration: '1 min',
+    difficulty: 'Beginner',
+    benefits: ['Automatic timing', 'Full stand counting', 'Age-norm comparison'],
+    icon: <Armchair className="w-8 h-8" />
+  },
+  {
+    id: 'fiveTimesSitToStand',
+    name: 'Five Times Sit-to-Stand',
+    description: 'Standard outcome test timing five full stands from a chair, compared with age norms.',
+    duration: '1 min',
+    difficulty: 'Beginner',
+    benefits: ['Automatic timing', 'Arm use detection', 'Age-norm comparison'],
+    icon: <AlarmClock className="w-8 h-8" />
+  },
+  {
+    id: 'balanceTest',
+    name: 'Static Balance Test',
+    description: 'Timed standing balance in double-leg, tandem or single-leg stance, measuring body sway and counting losses of balance.',
+    duration: '1 min',
+    difficulty: 'Beginner',
+    benefits: ['Sway path and area', 'Loss-of-balance count', 'Eyes open or closed'],
+    icon: <PersonStanding className="w-8 h-8" />
+  },
+  {
+    id: 'wallSit',
+    name: 'Wall Sit',
+    description: 'Build quadriceps endurance with a timed hold that only counts while your knees stay at 90 degrees.',
+    duration: '2-4 min',
+    difficulty: 'Intermediate',
+    benefits: ['Hold timer', 'Knee angle tracking', 'Weight balance'],
+    icon: <Timer className="w-8 h-8" />
+  },
+  {
+    id: 'plank',
+    name: 'Plank',
+    description: 'Strengthen your core with a side-on plank hold and feedback when your hips sag or pike.',
+    duration: '1-3 min',
+    difficulty: 'Intermediate',
+    benefits: ['Hold timer', 'Body line check', 'Hip height feedback'],
+    icon: <Dumbbell className="w-8 h-8" />
+  },
+  {
+    id: 'singleLegBalance',
+    name: 'Single-Leg Balance',
+    description: 'Train balance and hip stability by standing on one leg while trunk sway is monitored.',
+    duration: '2-4 min',
+    difficulty: 'Beginner',
+    benefits: ['Hold timer', 'Trunk sway', 'Hip level'],
+    icon: <Footprints className="w-8 h-8" />
+  },
+  {
+    id: 'shoulderAbductionHold',
+    name: 'Shoulder Abduction Hold',
+    description: 'Hold both arms at shoulder height to build endurance, with the timer pausing when your arms drift.',
+    duration: '2-4 min',
+    difficulty: 'Beginner',
+    benefits: ['Hold timer', 'Arm height tracking', 'Symmetry check'],
+    icon: <Hourglass className="w-8 h-8" />
   }
 ];
 
@@ -43,10 +193,17 @@ interface ExerciseSelectorProps {
 }
 
 export const ExerciseSelector: React.FC<ExerciseSelectorProps> = ({ onExerciseSelect }) => {
-  const { setCurrentExercise, setExerciseConfig } = usePoseStore();
+  const { activePatient, setCurrentExercise, setExerciseConfig } = usePoseStore();
+
+  const { data: prescription } = useQuery({
+    queryKey: ['prescription', activePatient?.id],
+    queryFn: async () => (await getPrescription(activePatient!.id)) ?? null,
+    enabled: !!activePatient
+  });
+
+  const program = prescription?.exercises.filter(item => EXERCISE_CONFIGS[item.exercise]) ?? [];
 
-  const handleSelectExercise = (exerciseId: ExerciseType) => {
-    const config = EXERCISE_CONFIGS[exerciseId];
+  const handleSelectExercise = (exerciseId: ExerciseType, config: ExerciseConfig = EXERCISE_CONFIGS[exerciseId]) => {
     setCurrentExercise(exerciseId);
     setExerciseConfig(config);
     onExerciseSelect(exerciseId);
@@ -61,6 +218,27 @@ export const ExerciseSelector: React.FC<ExerciseSelectorProps> = ({ onExerciseSe
     }
   };
 
+  const describeDosage = (item: PrescribedExercise) => {
+    const definition = EXERCISE_DEFINITIONS[item.exercise];
+    const config = EXERCISE_CONFIGS[item.exercise];
+    const side = item.side ?? config.side;
+    if (definition.balance) {
+      const condition = formatBalanceCondition(item.stance ?? config.stance, item.vision ?? config.vision);
+      return `${condition} · ${definition.balance.durationSeconds}s`;
+    }
+    return definition.hold
+      ? [
+          `${item.sets} × ${item.reps} holds of ${item.holdSeconds || definition.hold.targetSeconds}s`,
+          `${item.restSeconds}s rest`
+        ].join(' · ')
+      : [
+          `${item.sets} × ${item.reps} reps`,
+          `${item.restSeconds}s rest`,
+          item.tempo && `tempo ${formatTempo(item.tempo)}`,
+          definition.sides && side !== 'bilateral' && formatSideSetting(side).toLowerCase()
+        ].filter(Boolean).join(' · ');
+  };
+
   return (
     <div className="w-full max-w-4xl mx-auto p-6">
       <motion.div
@@ -69,76 +247,115 @@ export const ExerciseSelector: React.FC<ExerciseSelectorProps> = ({ onExerciseSe
         className="text-center mb-8"
       >
         <h1 className="text-3xl font-bold text-foreground mb-3 bg-gradient-medical bg-clip-text text-transparent">
-          Choose Your Exercise
+          {program.length > 0 ? 'Your Prescribed Program' : 'Choose Your Exercise'}
         </h1>
         <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
-          Select an exercise to begin your guided rehabilitation session with real-time pose analysis and feedback.
+          {program.length > 0
+            ? 'Work through the exercises your clinician prescribed, in order.'
+            : 'Select an exercise to begin your guided rehabilitation session with real-time pose analysis and feedback.'}
         </p>
       </motion.div>
 
-      <div className="grid md:grid-cols-2 gap-6">
-        {exercises.map((exercise, index) => (
-          <motion.div
-            key={exercise.id}
-            initial={{ opacity: 0, y: 30 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: index * 0.1 }}
-          >
-            <Card className="h-full hover:shadow-medical transition-shadow duration-300 border-border/50 hover:border-medical/30">
-              <CardHeader className="pb-4">
-                <div className="flex items-start justify-between">
-                  <div className="flex items-center gap-3">
+      {program.length > 0 ? (
+        <div className="space-y-4">
+          {program.map((item, index) => {
+            const config = createPrescribedConfig(item);
+            const option = exercises.find(exercise => exercise.id === item.exercise);
+
+            return (
+              <motion.div
+                key={item.id}
+                initial={{ opacity: 0, y: 30 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.1 }}
+              >
+                <Card className="hover:shadow-medical transition-shadow duration-300 border-border/50 hover:border-medical/30">
+                  <CardContent className="p-6 flex flex-wrap items-center gap-4">
                     <div className="p-3 rounded-lg bg-medical/10 text-medical">
-                      {exercise.icon}
+                      {option?.icon ?? <ClipboardList className="w-8 h-8" />}
                     </div>
-                    <div>
-                      <CardTitle className="text-xl">{exercise.name}</CardTitle>
-                      <div className="flex items-center gap-2 mt-1">
-                        <Badge 
-                          variant="secondary" 
-                          className={`text-${getDifficultyColor(exercise.difficulty)}-foreground bg-${getDifficultyColor(exercise.difficulty)}/10`}
-                        >
-                          {exercise.difficulty}
-                        </Badge>
-                        <div className="flex items-center text-sm text-muted-foreground">
-                          <Clock className="w-3 h-3 mr-1" />
-                          {exercise.duration}
+                    <div className="flex-1 min-w-48">
+                      <CardTitle className="text-xl">{index + 1}. {config.name}</CardTitle>
+                      <CardDescription className="mt-1">{describeDosage(item)}</CardDescription>
+                    </div>
+                    <Button
+                      onClick={() => handleSelectExercise(item.exercise, config)}
+                      className="bg-medical hover:bg-medical/90 text-medical-foreground"
+                      size="lg"
+                    >
+                      Start
+                    </Button>
+                  </CardContent>
+                </Card>
+              </motion.div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-6">
+          {exercises.map((exercise, index) => (
+            <motion.div
+              key={exercise.id}
+              initial={{ opacity: 0, y: 30 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.1 }}
+            >
+              <Card className="h-full hover:shadow-medical transition-shadow duration-300 border-border/50 hover:border-medical/30">
+                <CardHeader className="pb-4">
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-center gap-3">
+                      <div className="p-3 rounded-lg bg-medical/10 text-medical">
+                        {exercise.icon}
+                      </div>
+                      <div>
+                        <CardTitle className="text-xl">{exercise.name}</CardTitle>
+                        <div className="flex items-center gap-2 mt-1">
+                          <Badge 
+                            variant="secondary" 
+                            className={`text-${getDifficultyColor(exercise.difficulty)}-foreground bg-${getDifficultyColor(exercise.difficulty)}/10`}
+                          >
+                            {exercise.difficulty}
+                          </Badge>
+                          <div className="flex items-center text-sm text-muted-foreground">
+                            <Clock className="w-3 h-3 mr-1" />
+                            {exercise.duration}
+                          </div>
                         </div>
                       </div>
                     </div>
                   </div>
-                </div>
-              </CardHeader>
-
-              <CardContent className="pt-0">
-                <CardDescription className="text-base mb-4 leading-relaxed">
-                  {exercise.description}
-                </CardDescription>
-
-                <div className="mb-6">
-                  <h4 className="font-medium text-sm text-foreground mb-3">Key Benefits:</h4>
-                  <div className="space-y-2">
-                    {exercise.benefits.map((benefit, idx) => (
-                      <div key={idx} className="flex items-center gap-2 text-sm text-muted-foreground">
-                        <CheckCircle className="w-4 h-4 text-health" />
-                        {benefit}
-                      </div>
-                    ))}
+                </CardHeader>
+
+                <CardContent className="pt-0">
+                  <CardDescription className="text-base mb-4 leading-relaxed">
+                    {exercise.description}
+                  </CardDescription>
+
+                  <div className="mb-6">
+                    <h4 className="font-medium text-sm text-foreground mb-3">Key Benefits:</h4>
+                    <div className="space-y-2">
+                      {exercise.benefits.map((benefit, idx) => (
+                        <div key={idx} className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <CheckCircle className="w-4 h-4 text-health" />
+                          {benefit}
+                        </div>
+                      ))}
+                    </div>
                   </div>
-                </div>
-
-                <Button
-                  onClick={() => handleSelectExercise(exercise.id)}
-                  className="w-full bg-medical hover:bg-medical/90 text-medical-foreground"
-                  size="lg"
-                >
-                  Start {exercise.name}
-                </Button>
-              </CardContent>
-            </Card>
-          </motion.div>
-        ))}
-      </div>
+
+                  <Button
+                    onClick={() => handleSelectExercise(exercise.id)}
+                    className="w-full bg-medical hover:bg-medical/90 text-medical-foreground"
+                    size="lg"
+                  >
+                    Start {exercise.name}
+                  </Button>
+                </CardContent>
+              </Card>
+            </motion.div>
+          ))}
+        </div>
+      )}
 
       <motion.div
         initial={{ opacity: 0 }}
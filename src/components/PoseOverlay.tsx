@@ -1,7 +1,8 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { usePoseStore } from '@/store/pose-store';
 import { PoseDetector, PoseResults } from '@/lib/pose-detection';
+import { EXERCISE_DEFINITIONS } from '@/lib/exercises';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 
@@ -17,9 +18,26 @@ export const PoseOverlay: React.FC<PoseOverlayProps> = ({ poseResults, detector
     setCanvasElement, 
     metrics, 
     showFeedback,
-    currentExercise 
+    currentExercise,
+    exerciseConfig
   } = usePoseStore();
 
+  const displayedAngles = currentExercise
+    ? (Object.keys(EXERCISE_DEFINITIONS[currentExercise]?.angles ?? {}) as Array<keyof typeof metrics.angles>)
+    : [];
+
+  // Tick the rest countdown independently of detection frames
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (metrics.set.phase !== 'resting') return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [metrics.set.phase]);
+
+  const restSecondsLeft = metrics.set.restEndsAt
+    ? Math.max(0, Math.ceil((metrics.set.restEndsAt - now) / 1000))
+    : 0;
+
   useEffect(() => {
     if (canvasRef.current && !canvasElement) {
       setCanvasElement(canvasRef.current);
@@ -68,16 +86,76 @@ export const PoseOverlay: React.FC<PoseOverlayProps> = ({ poseResults, detector
         >
           <Card className="px-4 py-2 bg-card/90 backdrop-blur-sm border-medical/20">
             <div className="text-sm font-medium text-medical">
-              {currentExercise === 'squat' ? 'Squat' : 'Shoulder Abduction'}
+              {exerciseConfig?.name}
             </div>
           </Card>
           
-          <Card className="px-4 py-2 bg-card/90 backdrop-blur-sm border-health/20">
-            <div className="text-2xl font-bold text-health">
-              {metrics.repCount}
-            </div>
-            <div className="text-xs text-muted-foreground">reps</div>
-          </Card>
+          {metrics.balance ? (
+            <>
+              <Card className="px-4 py-2 bg-card/90 backdrop-blur-sm border-medical/20">
+                <div className={`text-2xl font-bold ${metrics.balance.inStance ? 'text-medical' : 'text-warning'}`}>
+                  {metrics.balance.remainingSeconds}s
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {metrics.balance.result ? 'finished' : metrics.balance.elapsedSeconds > 0 ? 'left' : 'get in stance'}
+                </div>
+              </Card>
+
+              <Card className="px-4 py-2 bg-card/90 backdrop-blur-sm border-medical/20">
+                <div className={`text-2xl font-bold ${metrics.balance.lossCount > 0 ? 'text-warning' : 'text-health'}`}>
+                  {metrics.balance.lossCount}
+                </div>
+                <div className="text-xs text-muted-foreground">losses</div>
+              </Card>
+            </>
+          ) : (
+            <>
+              <Card className="px-4 py-2 bg-card/90 backdrop-blur-sm border-health/20">
+                <div className="text-2xl font-bold text-health">
+                  {metrics.repCount}
+                </div>
+                <div className="text-xs text-muted-foreground">{metrics.hold ? 'holds' : 'reps'}</div>
+              </Card>
+
+              <Card className="px-4 py-2 bg-card/90 backdrop-blur-sm border-medical/20">
+                <div className="text-2xl font-bold text-medical">
+                  {metrics.set.current}/{metrics.set.total}
+                </div>
+                <div className="text-xs text-muted-foreground">set</div>
+              </Card>
+            </>
+          )}
+
+          {metrics.test && (
+            <Card className="px-4 py-2 bg-card/90 backdrop-blur-sm border-medical/20">
+              <div className="text-2xl font-bold text-medical">
+                {metrics.test.remainingSeconds ?? metrics.test.elapsedSeconds.toFixed(1)}s
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {metrics.test.result ? 'finished' : metrics.test.remainingSeconds !== null ? 'left' : 'elapsed'}
+              </div>
+            </Card>
+          )}
+
+          {metrics.side && (
+            <Card className="px-4 py-2 bg-card/90 backdrop-blur-sm border-medical/20">
+              <div className="text-2xl font-bold text-medical capitalize">{metrics.side.next}</div>
+              <div className="text-xs text-muted-foreground">
+                {metrics.side.setting === 'alternating' ? 'next side' : 'side'}
+              </div>
+            </Card>
+          )}
+
+          {metrics.hold && (
+            <Card className="px-4 py-2 bg-card/90 backdrop-blur-sm">
+              <div className={`text-2xl font-bold ${metrics.hold.inPosition ? 'text-health' : 'text-warning'}`}>
+                {Math.floor(metrics.hold.elapsedSeconds)}/{metrics.hold.targetSeconds}s
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {metrics.hold.inPosition ? 'hold' : 'paused'}
+              </div>
+            </Card>
+          )}
 
           <Card className="px-4 py-2 bg-card/90 backdrop-blur-sm">
             <div className={`text-2xl font-bold text-${getScoreColor(metrics.currentScore)}`}>
@@ -89,7 +167,7 @@ export const PoseOverlay: React.FC<PoseOverlayProps> = ({ poseResults, detector
 
         {/* Form indicator */}
         <AnimatePresence>
-          {metrics.isInPosition && (
+          {metrics.isInPosition && metrics.bodyInFrame && (
             <motion.div
               initial={{ opacity: 0, scale: 0.8 }}
               animate={{ opacity: 1, scale: 1 }}
@@ -107,6 +185,43 @@ export const PoseOverlay: React.FC<PoseOverlayProps> = ({ poseResults, detector
         </AnimatePresence>
       </div>
 
+      {/* Body out of frame - scoring is paused */}
+      <AnimatePresence>
+        {!metrics.bodyInFrame && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            className="absolute inset-x-0 bottom-24 z-10 flex justify-center"
+          >
+            <Card className="px-6 py-4 bg-card/95 backdrop-blur-sm border-warning/50 text-center">
+              <div className="font-semibold text-foreground">{metrics.feedback[0]}</div>
+              <div className="text-xs text-muted-foreground mt-1">Scoring and rep counting are paused</div>
+            </Card>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Rest countdown between sets */}
+      <AnimatePresence>
+        {metrics.set.phase === 'resting' && (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.9 }}
+            className="absolute inset-0 z-10 flex items-center justify-center"
+          >
+            <Card className="px-10 py-6 bg-card/95 backdrop-blur-sm border-medical/30 text-center">
+              <div className="text-sm text-muted-foreground">Rest</div>
+              <div className="text-5xl font-bold text-medical my-2">{restSecondsLeft}s</div>
+              <div className="text-sm text-muted-foreground">
+                Set {metrics.set.current + 1} of {metrics.set.total} starts next
+              </div>
+            </Card>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Real-time feedback */}
       {showFeedback && (
         <div className="absolute top-4 right-4 z-10 w-80">
@@ -155,24 +270,12 @@ export const PoseOverlay: React.FC<PoseOverlayProps> = ({ poseResults, detector
         <Card className="p-3 bg-card/90 backdrop-blur-sm">
           <div className="text-xs text-muted-foreground mb-2">Joint Angles</div>
           <div className="grid grid-cols-3 gap-3 text-xs">
-            {currentExercise === 'squat' && (
-              <>
-                <div>
-                  <div className="font-medium">Knee</div>
-                  <div className="text-medical">{Math.round(metrics.angles.knee)}°</div>
-                </div>
-                <div>
-                  <div className="font-medium">Hip</div>
-                  <div className="text-medical">{Math.round(metrics.angles.hip)}°</div>
-                </div>
-              </>
-            )}
-            {currentExercise === 'shoulderAbduction' && (
-              <div>
-                <div className="font-medium">Shoulder</div>
-                <div className="text-medical">{Math.round(metrics.angles.shoulder)}°</div>
+            {displayedAngles.map((joint) => (
+              <div key={joint}>
+                <div className="font-medium capitalize">{joint}</div>
+                <div className="text-medical">{Math.round(metrics.angles[joint])}°</div>
               </div>
-            )}
+            ))}
           </div>
         </Card>
       </div>
@@ -0,0 +1,294 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ClipboardList, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { EXERCISE_CONFIGS, PrescribedExercise } from '@/lib/exercise-rules';
+import { EXERCISE_DEFINITIONS } from '@/lib/exercises';
+import { getPrescription, savePrescription } from '@/lib/session-db';
+import { formatTempo, parseTempo } from '@/lib/tempo';
+import { SIDE_SETTINGS, SideSetting } from '@/lib/sides';
+import { BALANCE_STANCES, BalanceStance, VISION_SETTINGS, Vision } from '@/lib/balance';
+
+interface PrescriptionBuilderProps {
+  patientId: string;
+}
+
+interface DosageField {
+  key: 'sets' | 'reps' | 'restSeconds' | 'holdSeconds';
+  label: string;
+  // Sets and reps are whole counts of at least one
+  min: number;
+}
+
+const DOSAGE_FIELDS: DosageField[] = [
+  { key: 'sets', label: 'Sets', min: 1 },
+  { key: 'reps', label: 'Reps', min: 1 },
+  { key: 'restSeconds', label: 'Rest (s)', min: 0 },
+  { key: 'holdSeconds', label: 'Hold (s)', min: 0 }
+];
+
+// valgusLimit -> Valgus limit
+const formatThresholdName = (name: string) =>
+  name.replace(/([A-Z])/g, ' $1').toLowerCase().replace(/^\w/, letter => letter.toUpperCase());
+
+const createItem = (exercise: string): PrescribedExercise => {
+  const config = EXERCISE_CONFIGS[exercise];
+  return {
+    id: crypto.randomUUID(),
+    exercise,
+    sets: config.sets,
+    reps: config.targetReps,
+    restSeconds: config.restSeconds,
+    holdSeconds: config.holdSeconds,
+    thresholds: {}
+  };
+};
+
+export const PrescriptionBuilder: React.FC<PrescriptionBuilderProps> = ({ patientId }) => {
+  const queryClient = useQueryClient();
+  const [items, setItems] = useState<PrescribedExercise[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  // Text of the dosage input being edited, keyed by item id and field
+  const [dosageDrafts, setDosageDrafts] = useState<Record<string, string>>({});
+
+  const { data: prescription } = useQuery({
+    queryKey: ['prescription', patientId],
+    queryFn: async () => (await getPrescription(patientId)) ?? null
+  });
+
+  // Reset the draft whenever a different patient's saved program loads
+  useEffect(() => {
+    setItems(prescription?.exercises ?? []);
+    setIsDirty(false);
+  }, [prescription]);
+
+  const save = useMutation({
+    mutationFn: () => savePrescription({ patientId, exercises: items, updatedAt: Date.now() }),
+    onSuccess: () => {
+      setIsDirty(false);
+      queryClient.invalidateQueries({ queryKey: ['prescription', patientId] });
+    }
+  });
+
+  const updateItem = (id: string, changes: Partial<PrescribedExercise>) => {
+    setItems(current => current.map(item => (item.id === id ? { ...item, ...changes } : item)));
+    setIsDirty(true);
+  };
+
+  // The typed text is kept while editing so the field can be cleared; valid numbers are
+  // clamped into the item as they're typed, and blank input falls back to the last value on blur
+  const updateDosage = (id: string, field: DosageField, value: string) => {
+    setDosageDrafts(current => ({ ...current, [`${id}:${field.key}`]: value }));
+    const number = value === '' ? NaN : Number(value);
+    if (!Number.isFinite(number)) return;
+    updateItem(id, { [field.key]: Math.max(field.min, field.min > 0 ? Math.round(number) : number) });
+  };
+
+  const finishDosage = (id: string, field: DosageField) => {
+    setDosageDrafts(current => {
+      const drafts = { ...current };
+      delete drafts[`${id}:${field.key}`];
+      return drafts;
+    });
+  };
+
+  const updateThreshold = (item: PrescribedExercise, name: string, value: string) => {
+    const thresholds = { ...item.thresholds };
+    if (value === '') {
+      delete thresholds[name];
+    } else {
+      thresholds[name] = Number(value);
+    }
+    updateItem(item.id, { thresholds });
+  };
+
+  const addItem = () => {
+    setItems(current => [...current, createItem(Object.keys(EXERCISE_CONFIGS)[0])]);
+    setIsDirty(true);
+  };
+
+  const removeItem = (id: string) => {
+    setItems(current => current.filter(item => item.id !== id));
+    setIsDirty(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <ClipboardList className="w-5 h-5 text-medical" />
+              Prescription
+            </CardTitle>
+            <CardDescription>
+              {prescription
+                ? `Last saved ${new Date(prescription.updatedAt).toLocaleString()}`
+                : 'The patient sees this program when starting a session'}
+            </CardDescription>
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={addItem}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Exercise
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => save.mutate()}
+              disabled={!isDirty || save.isPending}
+              className="bg-medical hover:bg-medical/90 text-medical-foreground"
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {items.length === 0 && (
+          <p className="text-sm text-muted-foreground">No exercises prescribed yet.</p>
+        )}
+
+        {items.map((item, index) => {
+          const defaults = EXERCISE_CONFIGS[item.exercise].thresholds;
+          const isHold = Boolean(EXERCISE_DEFINITIONS[item.exercise].hold);
+          const hasSides = Boolean(EXERCISE_DEFINITIONS[item.exercise].sides);
+          const isBalance = Boolean(EXERCISE_DEFINITIONS[item.exercise].balance);
+
+          return (
+            <div key={item.id} className="p-4 rounded-lg border border-border/50 space-y-4">
+              <div className="flex items-center gap-3">
+                <span className="text-sm font-medium text-muted-foreground w-6">{index + 1}.</span>
+                <Select value={item.exercise} onValueChange={(exercise) => updateItem(item.id, { ...createItem(exercise), id: item.id })}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(EXERCISE_CONFIGS).map(([id, config]) => (
+                      <SelectItem key={id} value={id}>{config.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeItem(item.id)}
+                  className="ml-auto text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+                {/* A balance test is a single timed trial, so only the condition is prescribed */}
+                {!isBalance && DOSAGE_FIELDS.filter(field => isHold || field.key !== 'holdSeconds').map(field => (
+                  <div key={field.key} className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">
+                      {isHold && field.key === 'reps' ? 'Holds' : field.label}
+                    </Label>
+                    <Input
+                      type="number"
+                      min={field.min}
+                      value={dosageDrafts[`${item.id}:${field.key}`] ?? item[field.key]}
+                      onChange={(e) => updateDosage(item.id, field, e.target.value)}
+                      onBlur={() => finishDosage(item.id, field)}
+                    />
+                  </div>
+                ))}
+                {!isHold && !isBalance && (
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Tempo (s)</Label>
+                    {/* Parsed on blur so partial input like "3-" can be typed */}
+                    <Input
+                      key={item.tempo ? formatTempo(item.tempo) : 'default'}
+                      placeholder={formatTempo(EXERCISE_CONFIGS[item.exercise].tempo)}
+                      defaultValue={item.tempo ? formatTempo(item.tempo) : ''}
+                      onBlur={(e) => updateItem(item.id, { tempo: parseTempo(e.target.value) ?? undefined })}
+                    />
+                  </div>
+                )}
+                {hasSides && (
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Side</Label>
+                    <Select
+                      value={item.side ?? EXERCISE_CONFIGS[item.exercise].side}
+                      onValueChange={(side) => updateItem(item.id, { side: side as SideSetting })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SIDE_SETTINGS.map(option => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {isBalance && (
+                  <>
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Stance</Label>
+                      <Select
+                        value={item.stance ?? EXERCISE_CONFIGS[item.exercise].stance}
+                        onValueChange={(stance) => updateItem(item.id, { stance: stance as BalanceStance })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {BALANCE_STANCES.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Vision</Label>
+                      <Select
+                        value={item.vision ?? 'eyesOpen'}
+                        onValueChange={(vision) => updateItem(item.id, { vision: vision as Vision })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {VISION_SETTINGS.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              <div>
+                <h4 className="text-xs font-medium text-muted-foreground mb-2">Thresholds (blank uses the default)</h4>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                  {Object.entries(defaults).map(([name, defaultValue]) => (
+                    <div key={name} className="space-y-1">
+                      <Label className="text-xs">{formatThresholdName(name)}</Label>
+                      <Input
+                        type="number"
+                        step="any"
+                        placeholder={String(defaultValue)}
+                        value={item.thresholds[name] ?? ''}
+                        onChange={(e) => updateThreshold(item, name, e.target.value)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
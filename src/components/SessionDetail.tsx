@@ -0,0 +1,292 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { MessageSquare, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Patient, SessionRecord, deleteNote, listSessionNotes, saveNote } from '@/lib/session-db';
+import { RepData } from '@/lib/exercise-rules';
+import { formatDuration, formatFlag } from '@/lib/session-stats';
+import { formatTempo } from '@/lib/tempo';
+import { OUTCOME_MEASURES, formatOutcomeValue } from '@/lib/outcomes';
+import { SwayStats, formatBalanceCondition } from '@/lib/balance';
+
+const UNASSIGNED = 'unassigned';
+
+interface SessionDetailProps {
+  session: SessionRecord;
+  patients: Patient[];
+  onAssignPatient: (patientId: string | undefined) => void;
+}
+
+const NORM_RATINGS = {
+  below: { label: 'Below norm', className: 'bg-warning/10 border-warning/30 text-warning-foreground' },
+  within: { label: 'Within norm', className: 'bg-health/10 border-health/30 text-health' },
+  above: { label: 'Above norm', className: 'bg-health/10 border-health/30 text-health' }
+};
+
+// Angles are recorded as 0 when an exercise doesn't measure that joint. Older
+// sessions have no ankle angle, which also shows as a dash.
+const formatSway = (label: string, sway: SwayStats | null) =>
+  sway
+    ? `${label} sway ${sway.pathLength} cm path · ${sway.meanVelocity} cm/s · ${sway.area} cm² area`
+    : `${label} sway not measured`;
+
+const formatAngle = (angle: number) => (angle > 0 ? `${Math.round(angle)}°` : '—');
+
+// "L 82°" for a single-side rep, "L 82° / R 75°" when both sides worked
+const formatRepSides = (rep: RepData) => {
+  if (!rep.rom) return '—';
+  return (['left', 'right'] as const)
+    .filter(side => rep.rom[side] !== undefined)
+    .map(side => `${side === 'left' ? 'L' : 'R'} ${rep.rom[side]}°`)
+    .join(' / ');
+};
+
+export const SessionDetail: React.FC<SessionDetailProps> = ({ session, patients, onAssignPatient }) => {
+  const queryClient = useQueryClient();
+  const [noteText, setNoteText] = useState('');
+
+  const { data: notes = [] } = useQuery({
+    queryKey: ['notes', session.id],
+    queryFn: () => listSessionNotes(session.id)
+  });
+
+  const invalidateNotes = () => queryClient.invalidateQueries({ queryKey: ['notes', session.id] });
+
+  const addNote = useMutation({
+    mutationFn: (text: string) => saveNote({
+      id: crypto.randomUUID(),
+      sessionId: session.id,
+      text,
+      createdAt: Date.now()
+    }),
+    onSuccess: () => {
+      setNoteText('');
+      invalidateNotes();
+    }
+  });
+
+  const removeNote = useMutation({
+    mutationFn: deleteNote,
+    onSuccess: invalidateNotes
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <CardTitle className="text-lg">{session.exerciseName}</CardTitle>
+              <CardDescription>
+                {new Date(session.startedAt).toLocaleString()} · {formatDuration(session.durationMs)}
+              </CardDescription>
+            </div>
+
+            <Select
+              value={session.patientId ?? UNASSIGNED}
+              onValueChange={(value) => onAssignPatient(value === UNASSIGNED ? undefined : value)}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {patients.map(patient => (
+                  <SelectItem key={patient.id} value={patient.id}>{patient.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {session.outcome && (
+            <div className="flex flex-wrap items-center gap-2 pt-2">
+              <span className="text-sm font-medium">
+                {OUTCOME_MEASURES[session.outcome.measure].label}: {formatOutcomeValue(session.outcome)}
+              </span>
+              {!session.outcome.completed && <Badge variant="outline">Incomplete</Badge>}
+              {session.outcome.norm && (
+                <Badge variant="outline" className={NORM_RATINGS[session.outcome.norm.rating].className}>
+                  {NORM_RATINGS[session.outcome.norm.rating].label} · {session.outcome.norm.reference} at
+                  {' '}{session.outcome.norm.ageBand}
+                </Badge>
+              )}
+              {session.outcome.armUse && (
+                <Badge variant="outline" className="bg-warning/10 border-warning/30 text-warning-foreground">
+                  Arms used
+                </Badge>
+              )}
+            </div>
+          )}
+
+          {session.balance && (
+            <div className="flex flex-wrap items-center gap-2 pt-2">
+              <span className="text-sm font-medium">
+                {formatBalanceCondition(session.balance.stance, session.balance.vision)}: {session.balance.durationSeconds}s
+              </span>
+              {!session.balance.completed && <Badge variant="outline">Incomplete</Badge>}
+              <Badge
+                variant="outline"
+                className={session.balance.lossesOfBalance.length > 0
+                  ? 'bg-warning/10 border-warning/30 text-warning-foreground'
+                  : 'bg-health/10 border-health/30 text-health'}
+              >
+                {session.balance.lossesOfBalance.length} losses of balance
+                {session.balance.lossesOfBalance.length > 0 &&
+                  ` (at ${session.balance.lossesOfBalance.map(seconds => `${seconds}s`).join(', ')})`}
+              </Badge>
+              <Badge variant="outline">{formatSway('Hip', session.balance.hip)}</Badge>
+              <Badge variant="outline">{formatSway('Shoulder', session.balance.shoulder)}</Badge>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2 pt-2">
+            {!session.balance && (
+              <>
+                <Badge variant="outline" className="bg-medical/10 border-medical/30 text-medical">
+                  {session.repCount} reps
+                </Badge>
+                <Badge variant="outline" className="bg-health/10 border-health/30 text-health">
+                  Avg score {session.avgScore}
+                </Badge>
+              </>
+            )}
+            {session.tempo && (
+              <Badge variant="outline">
+                Tempo {formatTempo(session.tempo)} · {session.tempo.timeUnderTension}s under tension
+              </Badge>
+            )}
+            {session.sides && (
+              <Badge variant="outline">
+                L {session.sides.left.avgRom}° · R {session.sides.right.avgRom}° ROM
+                {session.sides.limbSymmetryIndex !== null && ` · LSI ${session.sides.limbSymmetryIndex}%`}
+              </Badge>
+            )}
+            {session.hold && (
+              <Badge variant="outline">
+                {session.hold.totalSeconds}s held · longest {session.hold.longestSeconds}s
+              </Badge>
+            )}
+            {session.flags.map(flag => (
+              <Badge key={flag} variant="outline" className="bg-warning/10 border-warning/30 text-warning-foreground">
+                {formatFlag(flag)}
+              </Badge>
+            ))}
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {session.sets && session.sets.length > 1 && (
+            <div className="flex flex-wrap gap-2">
+              {session.sets.map(set => (
+                <div key={set.setIndex} className="px-3 py-2 rounded-lg bg-muted/50 text-sm">
+                  <span className="font-medium">Set {set.setIndex}</span>
+                  <span className="text-muted-foreground"> · {set.repCount} reps · score {set.avgScore}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rep</TableHead>
+                <TableHead>Set</TableHead>
+                <TableHead>Time</TableHead>
+                <TableHead className="text-right">Knee</TableHead>
+                <TableHead className="text-right">Hip</TableHead>
+                <TableHead className="text-right">Shoulder</TableHead>
+                <TableHead className="text-right">Ankle</TableHead>
+                <TableHead>{session.hold ? 'Hold' : 'Tempo'}</TableHead>
+                {session.sides && <TableHead>Side ROM</TableHead>}
+                <TableHead className="text-right">Score</TableHead>
+                <TableHead>Breakdown</TableHead>
+                <TableHead>Flags</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {session.reps.map(rep => (
+                <TableRow key={rep.repIndex}>
+                  <TableCell className="font-medium">{rep.repIndex}</TableCell>
+                  <TableCell>{rep.setIndex ?? 1}</TableCell>
+                  <TableCell>{formatDuration(rep.timestamp - session.startedAt)}</TableCell>
+                  <TableCell className="text-right">{formatAngle(rep.angles.knee)}</TableCell>
+                  <TableCell className="text-right">{formatAngle(rep.angles.hip)}</TableCell>
+                  <TableCell className="text-right">{formatAngle(rep.angles.shoulder)}</TableCell>
+                  <TableCell className="text-right">{formatAngle(rep.angles.ankle)}</TableCell>
+                  <TableCell>
+                    {rep.tempo ? formatTempo(rep.tempo) : rep.holdSeconds != null ? `${rep.holdSeconds}s` : '—'}
+                  </TableCell>
+                  {session.sides && <TableCell>{formatRepSides(rep)}</TableCell>}
+                  <TableCell className="text-right">{rep.score}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {rep.scoreBreakdown?.map(component => (
+                      <div key={component.id}>
+                        {component.label} {component.points}/{component.maxPoints}
+                      </div>
+                    ))}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {rep.flags.map(flag => (
+                        <Badge key={flag} variant="secondary">{formatFlag(flag)}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <MessageSquare className="w-5 h-5 text-medical" />
+            Clinician Notes
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {notes.length === 0 && (
+            <p className="text-sm text-muted-foreground">No notes on this session yet.</p>
+          )}
+
+          {notes.map(note => (
+            <div key={note.id} className="flex items-start justify-between gap-4 p-3 rounded-lg bg-muted/50">
+              <div>
+                <p className="text-sm whitespace-pre-wrap">{note.text}</p>
+                <p className="text-xs text-muted-foreground mt-1">{new Date(note.createdAt).toLocaleString()}</p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeNote.mutate(note.id)}
+                className="text-muted-foreground hover:text-destructive"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+
+          <Textarea
+            value={noteText}
+            onChange={(e) => setNoteText(e.target.value)}
+            placeholder="Add a note about form, progress or next steps..."
+          />
+          <Button
+            onClick={() => addNote.mutate(noteText.trim())}
+            disabled={!noteText.trim() || addNote.isPending}
+            className="bg-medical hover:bg-medical/90 text-medical-foreground"
+          >
+            Add Note
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { SwayTracker, formatBalanceCondition } from './balance';
+
+const still = { hip: { x: 0, z: 0 }, shoulder: { x: 0, z: 0 } };
+
+describe('SwayTracker', () => {
+  it('starts the clock on the first frame in the stance', () => {
+    const tracker = new SwayTracker('tandem', 'eyesOpen', 10, 300);
+    tracker.update(false, still, 0);
+    expect(tracker.isStarted()).toBe(false);
+
+    tracker.update(true, still, 1000);
+    tracker.update(true, still, 3000);
+    expect(tracker.getElapsedSeconds()).toBe(2);
+  });
+
+  it('counts each excursion longer than the grace period once', () => {
+    const tracker = new SwayTracker('singleLeg', 'eyesClosed', 30, 300);
+    tracker.update(true, still, 0);
+    // Brief wobble, then a real loss at 2s lasting a second
+    tracker.update(false, still, 1000);
+    tracker.update(true, still, 1200);
+    for (let t = 2000; t <= 3000; t += 100) tracker.update(false, still, t);
+    expect(tracker.hasLostBalance()).toBe(true);
+    tracker.update(true, still, 3100);
+    expect(tracker.hasLostBalance()).toBe(false);
+
+    expect(tracker.getLossCount()).toBe(1);
+    expect(tracker.getResult().lossesOfBalance).toEqual([2]);
+  });
+
+  it('finishes at the test duration without counting later frames', () => {
+    const tracker = new SwayTracker('doubleLeg', 'eyesOpen', 5, 300);
+    for (let t = 0; t <= 7000; t += 100) tracker.update(true, still, t);
+    expect(tracker.isFinished()).toBe(true);
+    expect(tracker.getResult()).toMatchObject({ durationSeconds: 5, completed: true });
+  });
+
+  it('measures sway path, velocity and area in centimetres', () => {
+    const tracker = new SwayTracker('doubleLeg', 'eyesOpen', 10, 300);
+    // Walk a 2cm square, back to the start, over 4 seconds
+    const corners = [[0, 0], [0.02, 0], [0.02, 0.02], [0, 0.02], [0, 0]];
+    corners.forEach(([x, z], i) => tracker.update(true, { hip: { x, z }, shoulder: still.shoulder }, i * 1000));
+
+    const { hip, shoulder } = tracker.getResult();
+    expect(hip.pathLength).toBe(8);
+    expect(hip.meanVelocity).toBe(2);
+    expect(hip.area).toBeGreaterThan(0);
+    expect(shoulder).toEqual({ pathLength: 0, meanVelocity: 0, area: 0 });
+  });
+
+  it('reports sway as unmeasured without world positions', () => {
+    const tracker = new SwayTracker('doubleLeg', 'eyesOpen', 5, 300);
+    for (let t = 0; t <= 5000; t += 100) tracker.update(true, null, t);
+    expect(tracker.getResult()).toMatchObject({ completed: true, hip: null, shoulder: null });
+  });
+});
+
+describe('formatBalanceCondition', () => {
+  it('labels the stance and vision', () => {
+    expect(formatBalanceCondition('tandem', 'eyesClosed')).toBe('Tandem, eyes closed');
+  });
+});
@@ -0,0 +1,177 @@
+export type BalanceStance = 'doubleLeg' | 'tandem' | 'singleLeg';
+
+export type Vision = 'eyesOpen' | 'eyesClosed';
+
+export const BALANCE_STANCES: Array<{ value: BalanceStance; label: string }> = [
+  { value: 'doubleLeg', label: 'Double leg' },
+  { value: 'tandem', label: 'Tandem' },
+  { value: 'singleLeg', label: 'Single leg' }
+];
+
+export const VISION_SETTINGS: Array<{ value: Vision; label: string }> = [
+  { value: 'eyesOpen', label: 'Eyes open' },
+  { value: 'eyesClosed', label: 'Eyes closed' }
+];
+
+// e.g. "Tandem, eyes closed"
+export const formatBalanceCondition = (stance: BalanceStance, vision: Vision): string => {
+  const stanceLabel = BALANCE_STANCES.find(option => option.value === stance)?.label ?? stance;
+  const visionLabel = VISION_SETTINGS.find(option => option.value === vision)?.label ?? vision;
+  return `${stanceLabel}, ${visionLabel.toLowerCase()}`;
+};
+
+// Horizontal position relative to the base of support, in metres: x is side to side,
+// z is front to back
+export interface SwayPosition {
+  x: number;
+  z: number;
+}
+
+export interface SwayStats {
+  // Total distance travelled, in cm
+  pathLength: number;
+  // Path length over the test time, in cm/s
+  meanVelocity: number;
+  // 95% confidence ellipse around the positions, in cm²
+  area: number;
+}
+
+export interface BalanceResult {
+  stance: BalanceStance;
+  vision: Vision;
+  // Time tested, short of the target if the session ended early
+  durationSeconds: number;
+  completed: boolean;
+  // Null when no frame had world landmarks to measure sway from
+  hip: SwayStats | null;
+  shoulder: SwayStats | null;
+  // Seconds into the test at which each loss of balance began
+  lossesOfBalance: number[];
+}
+
+export interface BalanceProgress {
+  stance: BalanceStance;
+  vision: Vision;
+  // Zero until the patient first gets into the stance
+  elapsedSeconds: number;
+  remainingSeconds: number;
+  lossCount: number;
+  inStance: boolean;
+  result: BalanceResult | null;
+}
+
+// Chi-squared value for 2 degrees of freedom at 95%, scaling the ellipse to hold
+// 95% of the positions
+const CHI_SQUARED_95 = 5.991;
+
+const CM_PER_M = 100;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const summarizeSway = (positions: SwayPosition[], seconds: number): SwayStats | null => {
+  if (positions.length < 2) return null;
+
+  let pathLength = 0;
+  for (let i = 1; i < positions.length; i++) {
+    pathLength += Math.hypot(positions[i].x - positions[i - 1].x, positions[i].z - positions[i - 1].z);
+  }
+
+  const meanX = positions.reduce((sum, p) => sum + p.x, 0) / positions.length;
+  const meanZ = positions.reduce((sum, p) => sum + p.z, 0) / positions.length;
+  const varX = positions.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0) / (positions.length - 1);
+  const varZ = positions.reduce((sum, p) => sum + (p.z - meanZ) ** 2, 0) / (positions.length - 1);
+  const covXZ = positions.reduce((sum, p) => sum + (p.x - meanX) * (p.z - meanZ), 0) / (positions.length - 1);
+  const area = Math.PI * CHI_SQUARED_95 * Math.sqrt(Math.max(0, varX * varZ - covXZ ** 2));
+
+  return {
+    pathLength: round(pathLength * CM_PER_M),
+    meanVelocity: seconds > 0 ? round((pathLength * CM_PER_M) / seconds) : 0,
+    area: round(area * CM_PER_M * CM_PER_M)
+  };
+};
+
+// Runs a fixed-duration balance test. The clock starts the first time the patient
+// is in the stance and then keeps running; each time they leave it for longer than
+// `graceMs` (a foot touching down or stepping out) counts as one loss of balance.
+export class SwayTracker {
+  private startedAt: number | null = null;
+  private lastTimestamp: number | null = null;
+  private outSince: number | null = null;
+  private lossCounted = false;
+  private losses: number[] = [];
+  private hip: SwayPosition[] = [];
+  private shoulder: SwayPosition[] = [];
+
+  constructor(
+    private readonly stance: BalanceStance,
+    private readonly vision: Vision,
+    private readonly durationSeconds: number,
+    private readonly graceMs: number
+  ) {}
+
+  // Positions are null on frames without world landmarks; they add no sway samples
+  update(
+    inStance: boolean,
+    positions: { hip: SwayPosition; shoulder: SwayPosition } | null,
+    timestamp: number
+  ): void {
+    if (this.startedAt === null) {
+      if (!inStance) return;
+      this.startedAt = timestamp;
+    }
+    if (this.isFinished()) return;
+    this.lastTimestamp = Math.min(timestamp, this.startedAt + this.durationSeconds * 1000);
+
+    if (positions) {
+      this.hip.push(positions.hip);
+      this.shoulder.push(positions.shoulder);
+    }
+
+    if (inStance) {
+      this.outSince = null;
+      this.lossCounted = false;
+      return;
+    }
+
+    this.outSince ??= timestamp;
+    if (!this.lossCounted && timestamp - this.outSince > this.graceMs) {
+      this.losses.push(round((this.outSince - this.startedAt) / 1000));
+      this.lossCounted = true;
+    }
+  }
+
+  isStarted(): boolean {
+    return this.startedAt !== null;
+  }
+
+  isFinished(): boolean {
+    return this.getElapsedSeconds() >= this.durationSeconds;
+  }
+
+  // True while the current loss of balance is still going on
+  hasLostBalance(): boolean {
+    return this.lossCounted;
+  }
+
+  getElapsedSeconds(): number {
+    if (this.startedAt === null || this.lastTimestamp === null) return 0;
+    return round((this.lastTimestamp - this.startedAt) / 1000);
+  }
+
+  getLossCount(): number {
+    return this.losses.length;
+  }
+
+  getResult(): BalanceResult {
+    const seconds = this.getElapsedSeconds();
+    return {
+      stance: this.stance,
+      vision: this.vision,
+      durationSeconds: seconds,
+      completed: this.isFinished(),
+      hip: summarizeSway(this.hip, seconds),
+      shoulder: summarizeSway(this.shoulder, seconds),
+      lossesOfBalance: [...this.losses]
+    };
+  }
+}
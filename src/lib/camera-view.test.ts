@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { PoseLandmark } from './pose-detection';
+import { ViewClassifier, appliesInView, classifyView } from './camera-view';
+
+// World landmarks for a standing torso turned `yaw` degrees away from the camera
+const torso = (yaw: number): PoseLandmark[] => {
+  const cos = Math.cos((yaw * Math.PI) / 180);
+  const sin = Math.sin((yaw * Math.PI) / 180);
+  const landmarks: PoseLandmark[] = Array.from({ length: 33 }, () => ({ x: 0, y: 0, z: 0, visibility: 1 }));
+  const place = (index: number, halfWidth: number, y: number) => {
+    landmarks[index] = { x: halfWidth * cos, y, z: halfWidth * sin, visibility: 1 };
+  };
+  place(11, 0.18, -0.5);
+  place(12, -0.18, -0.5);
+  place(23, 0.12, 0);
+  place(24, -0.12, 0);
+  return landmarks;
+};
+
+describe('classifyView', () => {
+  it('tells front from side by body width and depth', () => {
+    expect(classifyView(torso(0))).toBe('front');
+    expect(classifyView(torso(30))).toBe('front');
+    expect(classifyView(torso(60))).toBe('side');
+    expect(classifyView(torso(90))).toBe('side');
+  });
+
+  it('is unsure without the torso landmarks', () => {
+    expect(classifyView([])).toBeNull();
+  });
+});
+
+describe('ViewClassifier', () => {
+  it('only switches view once the new one has settled', () => {
+    const classifier = new ViewClassifier(500);
+    expect(classifier.update([], torso(0), 0)).toBeNull();
+    expect(classifier.update([], torso(0), 500)).toBe('front');
+
+    classifier.update([], torso(90), 1000);
+    expect(classifier.update([], torso(90), 1300)).toBe('front');
+    expect(classifier.update([], torso(90), 1500)).toBe('side');
+  });
+
+  it('ignores single stray frames', () => {
+    const classifier = new ViewClassifier(500);
+    classifier.update([], torso(0), 0);
+    classifier.update([], torso(0), 500);
+    classifier.update([], torso(90), 600);
+    classifier.update([], torso(0), 700);
+    expect(classifier.update([], torso(0), 1200)).toBe('front');
+  });
+});
+
+describe('appliesInView', () => {
+  it('applies checks without views, or before the view is known', () => {
+    expect(appliesInView(undefined, 'side')).toBe(true);
+    expect(appliesInView(['front'], null)).toBe(true);
+    expect(appliesInView(['front'], 'front')).toBe(true);
+    expect(appliesInView(['front'], 'side')).toBe(false);
+  });
+});
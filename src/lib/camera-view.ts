@@ -0,0 +1,92 @@
+import { PoseLandmark, getKeyLandmarks } from './pose-detection';
+
+export type CameraView = 'front' | 'side';
+
+export const CAMERA_VIEW_LABELS: Record<CameraView, string> = {
+  front: 'Front view',
+  side: 'Side view'
+};
+
+export const TURN_PROMPTS: Record<CameraView, string> = {
+  front: 'Turn to face the camera',
+  side: 'Turn side-on to the camera'
+};
+
+export interface ViewProgress {
+  // Null until the classifier has settled on a view
+  current: CameraView | null;
+  // View the exercise needs or works best from, null if any view works
+  target: CameraView | null;
+  // True while the patient should turn to `target`
+  shouldTurn: boolean;
+}
+
+// Shoulder and hip width as a share of torso length. Facing the camera the body is
+// at least this wide; side-on the shoulders and hips overlap and it is at most this.
+const FRONT_WIDTH_RATIO = 0.5;
+const SIDE_WIDTH_RATIO = 0.25;
+
+// Widths in between are settled by how far the shoulder and hip lines point into the scene
+const SIDE_MIN_YAW_DEGREES = 45;
+
+// A new view must be seen this long before it replaces the current one
+const VIEW_SETTLE_MS = 500;
+
+// Checks that declare no views apply in any view, as do all checks until the view is known
+export const appliesInView = (views: CameraView[] | undefined, view: CameraView | null): boolean =>
+  !views || view === null || views.includes(view);
+
+// Best guess at the view from a single frame, null if it's ambiguous. Works on image
+// or world landmarks; world landmarks are metric, so widths don't depend on the
+// camera's aspect ratio.
+export const classifyView = (landmarks: PoseLandmark[]): CameraView | null => {
+  const { leftShoulder, rightShoulder, leftHip, rightHip } = getKeyLandmarks(landmarks);
+  if (!leftShoulder || !rightShoulder || !leftHip || !rightHip) return null;
+
+  const across = (a: PoseLandmark, b: PoseLandmark) => Math.hypot(b.x - a.x, b.y - a.y);
+  const width = (across(leftShoulder, rightShoulder) + across(leftHip, rightHip)) / 2;
+  const torsoLength = Math.hypot(
+    (leftShoulder.x + rightShoulder.x - leftHip.x - rightHip.x) / 2,
+    (leftShoulder.y + rightShoulder.y - leftHip.y - rightHip.y) / 2
+  );
+  if (torsoLength === 0) return null;
+
+  const widthRatio = width / torsoLength;
+  if (widthRatio >= FRONT_WIDTH_RATIO) return 'front';
+  if (widthRatio <= SIDE_WIDTH_RATIO) return 'side';
+
+  const depth = (Math.abs(rightShoulder.z - leftShoulder.z) + Math.abs(rightHip.z - leftHip.z)) / 2;
+  const yawDegrees = (Math.atan2(depth, width) * 180) / Math.PI;
+  return yawDegrees >= SIDE_MIN_YAW_DEGREES ? 'side' : 'front';
+};
+
+// Tracks which way the patient faces the camera. Single frames are noisy, so a new
+// view only takes over once it has been seen for `settleMs`; ambiguous frames, such
+// as those mid-turn, leave the current view in place.
+export class ViewClassifier {
+  private view: CameraView | null = null;
+  private candidate: CameraView | null = null;
+  private candidateSince = 0;
+
+  constructor(private readonly settleMs: number = VIEW_SETTLE_MS) {}
+
+  update(landmarks: PoseLandmark[], worldLandmarks: PoseLandmark[] | undefined, timestamp: number): CameraView | null {
+    const frameView = classifyView(worldLandmarks?.length ? worldLandmarks : landmarks);
+    if (frameView === null) return this.view;
+
+    if (frameView === this.view) {
+      this.candidate = null;
+    } else if (frameView !== this.candidate) {
+      this.candidate = frameView;
+      this.candidateSince = timestamp;
+    } else if (timestamp - this.candidateSince >= this.settleMs) {
+      this.view = frameView;
+      this.candidate = null;
+    }
+    return this.view;
+  }
+
+  getView(): CameraView | null {
+    return this.view;
+  }
+}
@@ -0,0 +1,354 @@
+import { z } from 'zod';
+import { getKeyLandmarks } from './pose-detection';
+
+// Operands are either literal numbers or names of measurements / thresholds
+const operandSchema = z.union([z.number(), z.string()]);
+
+const comparisonSchema = z.object({
+  left: operandSchema,
+  op: z.enum(['<', '<=', '>', '>=']),
+  right: operandSchema
+});
+
+export type Comparison = z.infer<typeof comparisonSchema>;
+
+export type Condition =
+  | Comparison
+  | { all: Condition[] }
+  | { any: Condition[] }
+  | { not: Condition };
+
+const conditionSchema = z.lazy(() =>
+  z.union([
+    comparisonSchema,
+    z.object({ all: z.array(conditionSchema).min(1) }),
+    z.object({ any: z.array(conditionSchema).min(1) }),
+    z.object({ not: conditionSchema })
+  ])
+) as z.ZodType<Condition>;
+
+const pointSchema = z.object({
+  midpoint: z.array(z.string()).min(2)
+});
+
+const measurementSchema = z.discriminatedUnion('type', [
+  // Angle at the middle point, in degrees. "auto" uses 3D world landmarks when
+  // the detector provides them and falls back to 2D image coordinates otherwise.
+  z.object({
+    type: z.literal('angle'),
+    points: z.tuple([z.string(), z.string(), z.string()]),
+    space: z.enum(['auto', '2d', '3d']).default('auto')
+  }),
+  // Signed distance `to - from` along one axis of normalized image coordinates
+  z.object({
+    type: z.literal('offset'),
+    from: z.string(),
+    to: z.string(),
+    axis: z.enum(['x', 'y', 'z']),
+    abs: z.boolean().optional()
+  }),
+  z.object({ type: z.literal('min'), of: z.array(operandSchema).min(1) }),
+  z.object({ type: z.literal('max'), of: z.array(operandSchema).min(1) }),
+  z.object({ type: z.literal('mean'), of: z.array(operandSchema).min(1) }),
+  z.object({
+    type: z.literal('difference'),
+    of: z.tuple([operandSchema, operandSchema])
+  }),
+  // `then` when the condition holds on the measurements so far, `else` otherwise,
+  // e.g. to follow whichever leg is in front. Without `else` the measurement is
+  // left out of frames where the condition fails, so it suits per-side ROM only.
+  z.object({
+    type: z.literal('choose'),
+    if: conditionSchema,
+    then: operandSchema,
+    else: operandSchema.optional()
+  })
+]);
+
+export type MeasurementDefinition = z.infer<typeof measurementSchema>;
+
+const cameraViewSchema = z.enum(['front', 'side']);
+
+// Camera views a check can be judged from, e.g. knee valgus only from the front.
+// Checks without `views` apply in any view.
+const viewsSchema = z.array(cameraViewSchema).min(1).optional();
+
+const sideSettingSchema = z.enum(['bilateral', 'left', 'right', 'alternating']);
+
+// Side settings a check is judged in, e.g. symmetry only while both sides work.
+// Checks without `sides` apply in any setting.
+const sideSettingsSchema = z.array(sideSettingSchema).min(1).optional();
+
+const repCheckSchema = z.object({
+  flag: z.string(),
+  measurement: z.string(),
+  extreme: z.enum(['min', 'max']),
+  op: comparisonSchema.shape.op,
+  right: operandSchema,
+  views: viewsSchema,
+  sides: sideSettingsSchema
+});
+
+const feedbackRuleSchema = z.object({
+  id: z.string(),
+  when: conditionSchema,
+  type: z.enum(['success', 'warning', 'error', 'info']),
+  message: z.string(),
+  priority: z.number(),
+  penalty: z.number().min(0).default(0),
+  // Flag recorded against the current rep whenever this rule fires
+  flag: z.string().optional(),
+  views: viewsSchema,
+  sides: sideSettingsSchema
+});
+
+export type FeedbackRule = z.infer<typeof feedbackRuleSchema>;
+
+// One part of a rep's quality score. The value is read from the whole rep
+// (an extreme of a measurement, or the rep's duration or pause in seconds) and earns full
+// points at or beyond `ideal`, none at or beyond `worst`, linearly in between.
+// `ideal` may sit above or below `worst`.
+const scoreComponentSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('extreme'),
+    id: z.string(),
+    label: z.string(),
+    measurement: z.string(),
+    extreme: z.enum(['min', 'max']),
+    ideal: operandSchema,
+    worst: operandSchema,
+    weight: z.number().positive(),
+    views: viewsSchema,
+    sides: sideSettingsSchema
+  }),
+  z.object({
+    type: z.literal('duration'),
+    id: z.string(),
+    label: z.string(),
+    // The whole rep, or just the pause at its far end as measured for tempo
+    of: z.enum(['rep', 'pause']).default('rep'),
+    ideal: operandSchema,
+    worst: operandSchema,
+    weight: z.number().positive()
+  })
+]);
+
+export type ScoreComponentDefinition = z.infer<typeof scoreComponentSchema>;
+
+const angleDisplaySchema = z.object({
+  measurement: z.string(),
+  peak: z.enum(['min', 'max'])
+});
+
+export type AngleDisplay = z.infer<typeof angleDisplaySchema>;
+
+const stanceSchema = z.object({
+  hold: conditionSchema,
+  // Shown until the patient first gets into the stance
+  setupMessage: z.string()
+});
+
+// Rep pace for duration scoring, in seconds: full points at `repSeconds`, none by
+// `rushedRepSeconds`. Exercises that score duration get these unless their thresholds
+// override them.
+const DEFAULT_REP_THRESHOLDS = { repSeconds: 3, rushedRepSeconds: 1.5 };
+
+export const exerciseDefinitionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  targetReps: z.number().int().positive(),
+  instructions: z.array(z.string()).default([]),
+  thresholds: z.record(z.number()),
+  points: z.record(pointSchema).default({}),
+  measurements: z.record(measurementSchema),
+  angles: z.object({
+    knee: angleDisplaySchema.optional(),
+    hip: angleDisplaySchema.optional(),
+    shoulder: angleDisplaySchema.optional(),
+    ankle: angleDisplaySchema.optional()
+  }),
+  // Landmarks that must be confidently tracked before the exercise is scored
+  visibility: z.object({
+    required: z.array(z.string()).min(1),
+    minVisibility: z.number().min(0).max(1).default(0.5),
+    message: z.string().default('Step back so your whole body is visible')
+  }),
+  // Camera view the exercise can only be analyzed from, which pauses analysis with a
+  // prompt to turn, or works best from, which only prompts
+  view: z.object({
+    required: cameraViewSchema.optional(),
+    preferred: cameraViewSchema.optional()
+  }).optional(),
+  inPosition: conditionSchema,
+  // Repetitive exercises define `reps` and `tempo`; isometric ones define `hold` and
+  // balance tests `balance` instead
+  reps: z.object({
+    // A rep runs from `rest` out to `target` and back again on this measurement
+    measurement: z.string(),
+    direction: z.enum(['decreasing', 'increasing']),
+    rest: operandSchema,
+    target: operandSchema,
+    hysteresis: z.number().min(0).default(5),
+    minDwellMs: z.number().min(0).default(150),
+    timeoutMs: z.number().positive().default(10000),
+    checks: z.array(repCheckSchema).default([])
+  }).optional(),
+  // Per-side versions of the rep measurement, for single-limb work and side-to-side
+  // comparison. A side's ROM in a rep is how far its measurement moves.
+  sides: z.object({
+    left: z.string(),
+    right: z.string(),
+    // Side setting used when a prescription doesn't choose one
+    default: sideSettingSchema.default('bilateral'),
+    // Two-sided measurements and their per-side versions. While one side is working,
+    // rules, the position check and scoring read that side's version instead.
+    measurements: z.record(z.object({ left: z.string(), right: z.string() })).default({})
+  }).optional(),
+  // Timing of each rep. Leaving rest is the eccentric phase for lowering
+  // movements like a squat and the concentric phase for lifts like a raise.
+  tempo: z.object({
+    outbound: z.enum(['eccentric', 'concentric']).default('eccentric'),
+    target: z.object({
+      eccentric: z.number().min(0),
+      pause: z.number().min(0),
+      concentric: z.number().min(0)
+    }),
+    // Movement within this much of the rep's extreme counts as pausing
+    pauseBand: z.number().min(0).default(5),
+    slowDownMessage: z.string().default('Slow down - control the movement'),
+    pauseMessage: z.string().default('Pause at the end of the movement')
+  }).optional(),
+  // The hold timer runs only while `target` is met. Excursions shorter than
+  // `graceMs` are treated as jitter rather than drifting out of position.
+  hold: z.object({
+    target: conditionSchema,
+    targetSeconds: z.number().positive(),
+    graceMs: z.number().min(0).default(500),
+    driftMessage: z.string().default('Get back into position - the timer is paused')
+  }).optional(),
+  // Static balance test: sway of the hip and shoulder points relative to `base` is
+  // tracked for a fixed duration. Leaving the stance's `hold` condition for longer
+  // than `graceMs` counts as a loss of balance.
+  balance: z.object({
+    durationSeconds: z.number().positive().default(30),
+    sway: z.object({ hip: z.string(), shoulder: z.string(), base: z.string() }),
+    stances: z.object({
+      doubleLeg: stanceSchema,
+      tandem: stanceSchema,
+      singleLeg: stanceSchema
+    }),
+    // Stance used when a prescription doesn't choose one
+    default: z.enum(['doubleLeg', 'tandem', 'singleLeg']).default('doubleLeg'),
+    graceMs: z.number().min(0).default(300),
+    lossMessage: z.string().default('Regain your balance - the test keeps running')
+  }).optional(),
+  // Runs a rep exercise as a timed outcome test: stands are counted within a fixed
+  // time, or a fixed number of them is timed. The clock starts with the first rep.
+  test: z.object({
+    measure: z.enum(['chairStand30', 'fiveTimesSitToStand']),
+    limit: z.discriminatedUnion('type', [
+      z.object({ type: z.literal('duration'), seconds: z.number().positive() }),
+      z.object({ type: z.literal('reps'), count: z.number().int().positive() })
+    ]),
+    // Rep flag that marks the result as done with arm assistance
+    armUseFlag: z.string()
+  }).optional(),
+  feedback: z.array(feedbackRuleSchema),
+  // Rep (or hold) score = weighted share of points earned across these components, 0-100
+  scoring: z.array(scoreComponentSchema).min(1),
+  encouragement: z
+    .object({
+      message: z.string(),
+      when: conditionSchema,
+      everyFrames: z.number().int().positive()
+    })
+    .optional()
+}).transform(definition => (definition.scoring.some(component => component.type === 'duration')
+  ? { ...definition, thresholds: { ...DEFAULT_REP_THRESHOLDS, ...definition.thresholds } }
+  : definition));
+
+export type ExerciseDefinition = z.infer<typeof exerciseDefinitionSchema>;
+
+export const parseExerciseDefinition = (data: unknown): ExerciseDefinition => {
+  const definition = exerciseDefinitionSchema.parse(data);
+
+  if ([definition.reps, definition.hold, definition.balance].filter(Boolean).length !== 1) {
+    throw new Error(`Exercise "${definition.id}" must define exactly one of "reps", "hold" or "balance"`);
+  }
+
+  if (definition.reps && !definition.tempo) {
+    throw new Error(`Exercise "${definition.id}" counts reps but has no "tempo"`);
+  }
+
+  if (definition.reps && !(definition.reps.measurement in definition.measurements)) {
+    throw new Error(
+      `Exercise "${definition.id}" counts reps on unknown measurement "${definition.reps.measurement}"`
+    );
+  }
+
+  if (definition.test && !definition.reps) {
+    throw new Error(`Exercise "${definition.id}" runs a test but doesn't count reps`);
+  }
+
+  if (definition.sides) {
+    if (!definition.reps) {
+      throw new Error(`Exercise "${definition.id}" declares sides but doesn't count reps`);
+    }
+    const unknownSide = [definition.sides.left, definition.sides.right].find(
+      name => !(name in definition.measurements)
+    );
+    if (unknownSide) {
+      throw new Error(`Exercise "${definition.id}" tracks a side on unknown measurement "${unknownSide}"`);
+    }
+    const unknownSided = Object.entries(definition.sides.measurements)
+      .flatMap(([name, perSide]) => [name, perSide.left, perSide.right])
+      .find(name => !(name in definition.measurements));
+    if (unknownSided) {
+      throw new Error(`Exercise "${definition.id}" reads a side of unknown measurement "${unknownSided}"`);
+    }
+  }
+
+  const unknownScoring = definition.scoring.find(
+    component => component.type === 'extreme' && !(component.measurement in definition.measurements)
+  );
+  if (unknownScoring) {
+    throw new Error(`Exercise "${definition.id}" scores unknown measurement in component "${unknownScoring.id}"`);
+  }
+
+  // Derived points may build on key landmarks and on points declared before them
+  const keyLandmarkNames = Object.keys(getKeyLandmarks([]));
+  const knownPoints = new Set(keyLandmarkNames);
+  for (const [name, point] of Object.entries(definition.points)) {
+    const unknownMember = point.midpoint.find(member => !knownPoints.has(member));
+    if (unknownMember) {
+      throw new Error(`Exercise "${definition.id}" point "${name}" uses unknown point "${unknownMember}"`);
+    }
+    knownPoints.add(name);
+  }
+
+  for (const [name, measurement] of Object.entries(definition.measurements)) {
+    const pointNames = measurement.type === 'angle'
+      ? measurement.points
+      : measurement.type === 'offset'
+      ? [measurement.from, measurement.to]
+      : [];
+    const unknownPoint = pointNames.find(pointName => !knownPoints.has(pointName));
+    if (unknownPoint) {
+      throw new Error(`Exercise "${definition.id}" measurement "${name}" uses unknown point "${unknownPoint}"`);
+    }
+  }
+
+  if (definition.balance) {
+    const unknownPoint = Object.values(definition.balance.sway).find(name => !knownPoints.has(name));
+    if (unknownPoint) {
+      throw new Error(`Exercise "${definition.id}" tracks sway of unknown point "${unknownPoint}"`);
+    }
+  }
+
+  const unknownLandmark = definition.visibility.required.find(name => !keyLandmarkNames.includes(name));
+  if (unknownLandmark) {
+    throw new Error(`Exercise "${definition.id}" requires unknown landmark "${unknownLandmark}"`);
+  }
+
+  return definition;
+};
@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { FRAME_MS, PoseAngles, keyframes, pose } from '@/test/poses';
+import { EXERCISE_CONFIGS, ExerciseAnalysis, ExerciseAnalyzer, ExerciseConfig } from './exercise-rules';
+
+// Plays a series of poses through the analyzer, one frame apart, returning every frame's analysis
+const play = (
+  analyzer: ExerciseAnalyzer,
+  exercise: string,
+  config: ExerciseConfig,
+  frames: PoseAngles[],
+  startAt = 0
+): ExerciseAnalysis[] =>
+  frames.map((angles, i) => analyzer.analyze(exercise, pose(angles), config, undefined, startAt + i * FRAME_MS));
+
+// Down to 80 degrees with a one-second pause at the bottom, then back up
+const squatRep = (): PoseAngles[] =>
+  keyframes(175, [175, 500], [80, 2000], [80, 1000], [175, 1000], [175, 500])
+    .map(knee => ({ leftKnee: knee, rightKnee: knee }));
+
+const standing = (ms: number): PoseAngles[] => Array.from({ length: Math.ceil(ms / FRAME_MS) }, () => ({}));
+
+describe('ExerciseAnalyzer', () => {
+  it('counts squat reps and scores each one', () => {
+    const analyzer = new ExerciseAnalyzer();
+    const frames = play(analyzer, 'squat', EXERCISE_CONFIGS.squat, [...squatRep(), ...squatRep()]);
+
+    expect(frames[frames.length - 1].repCount).toBe(2);
+    const reps = analyzer.getRepData();
+    expect(reps).toHaveLength(2);
+    expect(reps[0].angles.knee).toBeCloseTo(80, 0);
+    expect(reps[0].flags).not.toContain('shallow_squat');
+    expect(reps[0].tempo.pause).toBeGreaterThanOrEqual(0.9);
+    expect(reps[0].score).toBeGreaterThan(80);
+  });
+
+  it('flags a rep that stops short of the depth threshold', () => {
+    const analyzer = new ExerciseAnalyzer();
+    const shallow = keyframes(175, [175, 500], [110, 1500], [175, 1500]).map(knee => ({ leftKnee: knee, rightKnee: knee }));
+    play(analyzer, 'squat', EXERCISE_CONFIGS.squat, shallow);
+
+    expect(analyzer.getRepData()[0].flags).toContain('shallow_squat');
+  });
+
+  it('rests between sets and finishes after the last one', () => {
+    const analyzer = new ExerciseAnalyzer();
+    const config = { ...EXERCISE_CONFIGS.squat, targetReps: 2, sets: 2, restSeconds: 8 };
+
+    const firstSet = play(analyzer, 'squat', config, [...squatRep(), ...squatRep()]);
+    const setDone = firstSet.find(frame => frame.setEvent === 'setCompleted');
+    expect(setDone.set).toMatchObject({ current: 1, phase: 'resting' });
+    let t = firstSet.length * FRAME_MS;
+
+    // Reps during the rest period don't count
+    const resting = play(analyzer, 'squat', config, squatRep(), t);
+    expect(resting.every(frame => frame.repCount === 2)).toBe(true);
+    expect(resting[0].feedback[0].message).toBe('Rest before the next set');
+    t += resting.length * FRAME_MS;
+
+    const secondSet = play(analyzer, 'squat', config, [...standing(3000), ...squatRep(), ...squatRep()], t);
+    expect(secondSet.find(frame => frame.setEvent === 'restEnded').set).toMatchObject({ current: 2, phase: 'active' });
+    expect(secondSet.some(frame => frame.setEvent === 'allSetsCompleted')).toBe(true);
+    expect(secondSet[secondSet.length - 1].set.phase).toBe('complete');
+
+    expect(analyzer.getRepData().map(rep => rep.setIndex)).toEqual([1, 1, 2, 2]);
+    expect(analyzer.getSetSummaries().map(set => set.repCount)).toEqual([2, 2]);
+  });
+
+  it('pauses while required landmarks are out of frame', () => {
+    const analyzer = new ExerciseAnalyzer();
+    const landmarks = pose();
+    landmarks[27] = { ...landmarks[27], visibility: 0.1 };
+    const analysis = analyzer.analyze('squat', landmarks, EXERCISE_CONFIGS.squat, undefined, 0);
+
+    expect(analysis.bodyInFrame).toBe(false);
+    expect(analysis.missingLandmarks).toEqual(['leftAnkle']);
+  });
+
+  it('starts over after reset', () => {
+    const analyzer = new ExerciseAnalyzer();
+    play(analyzer, 'squat', EXERCISE_CONFIGS.squat, squatRep());
+    analyzer.reset();
+
+    expect(analyzer.getRepData()).toEqual([]);
+    expect(analyzer.getSetSummaries()).toEqual([]);
+  });
+});
+
+describe('single-side work', () => {
+  // Left arm up to 90 degrees and slowly back down while the right arm stays down
+  const leftRaise = (): PoseAngles[] =>
+    keyframes(10, [10, 500], [90, 1000], [90, 1000], [10, 3000], [10, 500])
+      .map(angle => ({ leftShoulder: angle, rightShoulder: 10 }));
+
+  it('judges the working arm on its own', () => {
+    const analyzer = new ExerciseAnalyzer();
+    const config = { ...EXERCISE_CONFIGS.shoulderAbduction, side: 'left' as const };
+    const frames = play(analyzer, 'shoulderAbduction', config, leftRaise());
+
+    const top = frames[Math.round(2000 / FRAME_MS)];
+    expect(top.isInPosition).toBe(true);
+    expect(top.angles.shoulder).toBeCloseTo(90, 0);
+    expect(top.feedback.map(f => f.message)).toEqual(['Perfect form! Great range of motion']);
+
+    const [rep] = analyzer.getRepData();
+    expect(rep).toMatchObject({ side: 'left', flags: [] });
+    expect(Object.keys(rep.rom)).toEqual(['left']);
+    expect(rep.scoreBreakdown.map(component => component.id)).not.toContain('symmetry');
+    expect(rep.score).toBeGreaterThan(80);
+  });
+
+  it('counts nothing when the other side is prescribed', () => {
+    const analyzer = new ExerciseAnalyzer();
+    const config = { ...EXERCISE_CONFIGS.shoulderAbduction, side: 'right' as const };
+    play(analyzer, 'shoulderAbduction', config, leftRaise());
+
+    expect(analyzer.getRepData()).toEqual([]);
+  });
+
+  it('follows the working arm through an external rotation', () => {
+    const leftTurn = keyframes(0, [0, 500], [70, 2000], [70, 1000], [0, 3000], [0, 500])
+      .map(angle => ({ leftForearm: angle }));
+    const singleSide = new ExerciseAnalyzer();
+    play(singleSide, 'shoulderExternalRotation', { ...EXERCISE_CONFIGS.shoulderExternalRotation, side: 'left' }, leftTurn);
+    const bothSides = new ExerciseAnalyzer();
+    play(bothSides, 'shoulderExternalRotation', EXERCISE_CONFIGS.shoulderExternalRotation, leftTurn);
+
+    // Averaged with the resting arm, the turn looks half as big
+    expect(singleSide.getRepData()[0].angles.shoulder).toBeCloseTo(70, 0);
+    expect(singleSide.getRepData()[0].flags).not.toContain('limited_rom');
+    expect(bothSides.getRepData()[0].flags).toContain('limited_rom');
+  });
+});
+
+describe('five times sit-to-stand', () => {
+  // Up from the chair, a moment standing, then back down
+  const sitToStand = (): PoseAngles[] =>
+    keyframes(90, [90, 300], [180, 800], [180, 300], [90, 800])
+      .map(angle => ({ leftKnee: angle, rightKnee: angle, hip: angle, armsCrossed: true }));
+
+  it('stops the clock at the fifth full stand', () => {
+    const analyzer = new ExerciseAnalyzer();
+    const stands = Array.from({ length: 5 }, sitToStand).flat();
+    const frames = play(analyzer, 'fiveTimesSitToStand', EXERCISE_CONFIGS.fiveTimesSitToStand, stands);
+
+    // Fully up for the fifth time, then the end of the session once seated again
+    const fifthStand = frames[4 * sitToStand().length + Math.round(1250 / FRAME_MS)];
+    const ended = frames.find(frame => frame.setEvent === 'allSetsCompleted');
+
+    expect(fifthStand.test.elapsedSeconds).toBeGreaterThan(0);
+    expect(ended.test.elapsedSeconds).toBe(fifthStand.test.elapsedSeconds);
+    expect(analyzer.getTestResult()).toMatchObject({ completed: true, value: Math.round(fifthStand.test.elapsedSeconds * 10) / 10 });
+    expect(analyzer.getRepData()).toHaveLength(5);
+  });
+});
+
+describe('balance test', () => {
+  // Moves both feet in toward the midline, `apart` from each other
+  const withFeetApart = (apart: number) => {
+    const landmarks = pose();
+    for (const [index, sign] of [[27, 1], [28, -1], [29, 1], [30, -1], [31, 1], [32, -1]]) {
+      landmarks[index] = { ...landmarks[index], x: 0.5 + (sign * apart) / 2 };
+    }
+    return landmarks;
+  };
+
+  it('only starts a double-leg trial with the feet together', () => {
+    const config = EXERCISE_CONFIGS.balanceTest;
+    const apart = new ExerciseAnalyzer().analyze('balanceTest', withFeetApart(0.2), config, undefined, 0);
+    expect(apart.balance.inStance).toBe(false);
+    expect(apart.feedback.map(f => f.message)).toContain('Stand with your feet together to start the test');
+
+    const together = new ExerciseAnalyzer().analyze('balanceTest', withFeetApart(0.04), config, undefined, 0);
+    expect(together.balance.inStance).toBe(true);
+  });
+});
@@ -1,28 +1,64 @@
-import { PoseLandmark, calculateAngle, getKeyLandmarks } from './pose-detection';
+import { PoseLandmark } from './pose-detection';
+import { AngleDisplay, ExerciseDefinition } from './exercise-definition';
+import { EXERCISE_DEFINITIONS } from './exercises';
+import { RepCounter } from './rep-counter';
+import { RepTempo, TempoTarget, TempoTracker } from './tempo';
+import { HoldProgress, HoldStats, HoldTimer } from './hold';
+import { Side, SideRom, SideSetting, appliesToSide, otherSide } from './sides';
+import { OutcomeMeasureId, TestResult, formatOutcomeValue } from './outcomes';
+import { BalanceProgress, BalanceResult, BalanceStance, SwayPosition, SwayTracker, Vision } from './balance';
+import { CameraView, TURN_PROMPTS, ViewClassifier, ViewProgress, appliesInView } from './camera-view';
+import {
+  MeasurementValues,
+  compare,
+  computeMeasurements,
+  evaluateCondition,
+  findMissingLandmarks,
+  formatMessage,
+  resolveOperand,
+  resolvePoints
+} from './rule-engine';
 
 export interface ExerciseMetrics {
   repCount: number;
   currentScore: number;
+  // Mean of completed rep scores, 0 before the first rep
+  averageScore: number;
   feedback: string[];
   angles: {
     knee: number;
     hip: number;
     shoulder: number;
+    ankle: number;
   };
   isInPosition: boolean;
+  // False while required landmarks are out of frame; scoring and rep counting pause
+  bodyInFrame: boolean;
+  set: SetProgress;
+  // Null for repetition exercises
+  hold: HoldProgress | null;
+  // Null unless the exercise is done one side at a time
+  side: SideProgress | null;
+  // Null unless the exercise is a timed test
+  test: TestProgress | null;
 }
 
 export interface ExerciseConfig {
   name: string;
   targetReps: number;
-  thresholds: {
-    depth?: number;
-    valgusLimit?: number;
-    leanLimit?: number;
-    romMin?: number;
-    romMax?: number;
-    symmetryLimit?: number;
-  };
+  sets: number;
+  restSeconds: number;
+  // Only applies to hold exercises: the time in position each hold must reach,
+  // 0 for the definition's target
+  holdSeconds: number;
+  tempo: TempoTarget;
+  // Only applies to exercises that declare sides
+  side: SideSetting;
+  // Only apply to balance tests
+  stance: BalanceStance;
+  vision: Vision;
+  // Keyed by the threshold names used in the exercise definition, e.g. depth, romMin
+  thresholds: Record<string, number | undefined>;
 }
 
 export interface FeedbackMessage {
@@ -32,303 +68,940 @@ export interface FeedbackMessage {
 }
 
 export interface RepData {
+  // Counts across the whole session; setIndex says which set the rep belongs to
   repIndex: number;
+  setIndex: number;
   angles: {
     knee: number;
     hip: number;
     shoulder: number;
+    ankle: number;
   };
   flags: string[];
+  // Quality of the whole rep, 0-100, from scoreBreakdown
   score: number;
+  scoreBreakdown: RepScoreComponent[];
+  // Null if the rep's start wasn't observed
+  tempo: RepTempo | null;
+  // Time in position, for holds
+  holdSeconds: number | null;
+  // Working side for single-side reps, null when both sides worked
+  side: Side | null;
+  // Null for exercises that don't declare sides
+  rom: SideRom | null;
+  timestamp: number;
+}
+
+// One line of a rep's score: the value judged over the rep and the points it earned
+export interface RepScoreComponent {
+  id: string;
+  label: string;
+  // e.g. the deepest knee angle, or the rep's duration in seconds
+  value: number;
+  points: number;
+  maxPoints: number;
+}
+
+export interface ScorePoint {
   timestamp: number;
+  score: number;
+}
+
+export interface SetSummary {
+  setIndex: number;
+  repCount: number;
+  avgScore: number;
+  flags: string[];
+  startedAt: number;
+  endedAt: number;
+}
+
+export interface SetProgress {
+  // 1-based
+  current: number;
+  total: number;
+  phase: 'active' | 'resting' | 'complete';
+  // Epoch milliseconds the rest period ends, while resting
+  restEndsAt: number | null;
+}
+
+export type SetEvent = 'setCompleted' | 'restEnded' | 'allSetsCompleted';
+
+export interface TestProgress {
+  measure: OutcomeMeasureId;
+  // Zero until the first rep starts the clock
+  elapsedSeconds: number;
+  // Seconds left for a fixed-duration test, null for a fixed-reps one
+  remainingSeconds: number | null;
+  stands: number;
+  result: TestResult | null;
+}
+
+export interface SideProgress {
+  setting: SideSetting;
+  // Side the next rep should use
+  next: Side;
+  repCounts: Record<Side, number>;
+}
+
+// Minimum gap between stored score samples, to keep session records small
+const SCORE_SAMPLE_INTERVAL_MS = 500;
+
+// A phase shorter than this share of its target counts as rushed
+const TEMPO_TOLERANCE = 0.75;
+
+// How long a tempo cue stays on screen after the moment it refers to
+const TEMPO_CUE_MS = 2000;
+
+export interface ExerciseAnalysis {
+  // Live form score for the current frame
+  score: number;
+  averageScore: number;
+  feedback: FeedbackMessage[];
+  // Reps in the current set
+  repCount: number;
+  set: SetProgress;
+  // Set boundary crossed on this frame, for cues
+  setEvent: SetEvent | null;
+  // Null for repetition exercises
+  hold: HoldProgress | null;
+  side: SideProgress | null;
+  // Null unless the exercise is a timed test
+  test: TestProgress | null;
+  // Null unless the exercise is a balance test
+  balance: BalanceProgress | null;
+  view: ViewProgress;
+  isInPosition: boolean;
+  bodyInFrame: boolean;
+  missingLandmarks: string[];
+  angles: { knee: number; hip: number; shoulder: number; ankle: number };
 }
 
 export class ExerciseAnalyzer {
   private repCount = 0;
   private currentScore = 0;
-  private lastPosition = 'up';
+  private repCounter: RepCounter | null = null;
+  private repCounterExercise: string | null = null;
+  private tempoTracker: TempoTracker | null = null;
+  private tempoCue: { message: string; until: number } | null = null;
+  private holdTimer: HoldTimer | null = null;
+  private holdTimerExercise: string | null = null;
   private repData: RepData[] = [];
   private frameCount = 0;
+  private repExtremes: Record<string, { min: number; max: number }> = {};
+  private repFlags = new Set<string>();
+  private repStartedAt: number | null = null;
+  private scoreTimeline: ScorePoint[] = [];
+  private setIndex = 1;
+  private setRepCount = 0;
+  private setStartedAt: number | null = null;
+  private restEndsAt: number | null = null;
+  private setsComplete = false;
+  private setSummaries: SetSummary[] = [];
+  private testStartedAt: number | null = null;
+  private testEndedAt: number | null = null;
+  private testResult: TestResult | null = null;
+  private swayTracker: SwayTracker | null = null;
+  private swayTrackerExercise: string | null = null;
+  private balanceResult: BalanceResult | null = null;
+  private viewClassifier = new ViewClassifier();
+
+  analyze(
+    exercise: string,
+    landmarks: PoseLandmark[],
+    config: ExerciseConfig,
+    worldLandmarks?: PoseLandmark[],
+    timestamp: number = Date.now()
+  ): ExerciseAnalysis {
+    const definition = EXERCISE_DEFINITIONS[exercise];
+    if (!definition) {
+      throw new Error(`Unknown exercise "${exercise}"`);
+    }
+
+    let setEvent: SetEvent | null = null;
+    if (this.restEndsAt !== null && timestamp >= this.restEndsAt) {
+      this.startNextSet(timestamp);
+      setEvent = 'restEnded';
+    }
+    this.setStartedAt ??= timestamp;
+
+    if (this.setsComplete) {
+      const message = this.testResult
+        ? `Test complete: ${formatOutcomeValue(this.testResult)}`
+        : this.balanceResult
+        ? 'Balance test complete'
+        : 'All sets complete. Great work!';
+      return this.pausedAnalysis(definition, config, timestamp, [{ type: 'success', message, priority: 5 }]);
+    }
+
+    if (this.restEndsAt !== null) {
+      return this.pausedAnalysis(definition, config, timestamp, [{ type: 'info', message: 'Rest before the next set', priority: 5 }]);
+    }
+
+    // Pause scoring and rep counting rather than analyzing a partial skeleton
+    const { required, minVisibility, message } = definition.visibility;
+    const missingLandmarks = findMissingLandmarks(landmarks, required, minVisibility);
+    if (missingLandmarks.length > 0) {
+      return {
+        ...this.pausedAnalysis(definition, config, timestamp, [{ type: 'warning', message, priority: 5 }], setEvent),
+        bodyInFrame: false,
+        missingLandmarks
+      };
+    }
 
-  analyzeSquat(landmarks: PoseLandmark[], config: ExerciseConfig): {
-    score: number;
-    feedback: FeedbackMessage[];
-    repCount: number;
-    isInPosition: boolean;
-    angles: { knee: number; hip: number; shoulder: number };
-  } {
-    const keyLandmarks = getKeyLandmarks(landmarks);
+    // Exercises that can only be judged from one view wait for the patient to turn
+    const view = this.viewClassifier.update(landmarks, worldLandmarks, timestamp);
+    const requiredView = definition.view?.required;
+    if (requiredView && view && view !== requiredView) {
+      const turnPrompt: FeedbackMessage = { type: 'warning', message: TURN_PROMPTS[requiredView], priority: 5 };
+      return this.pausedAnalysis(definition, config, timestamp, [turnPrompt], setEvent);
+    }
+
+    const thresholds = resolveThresholds(definition, config);
+    const measured = computeMeasurements(definition, landmarks, thresholds, worldLandmarks);
+    const side = getWorkingSide(definition, config, measured);
+    const values = readSide(definition, side, measured);
     const feedback: FeedbackMessage[] = [];
     let score = 100;
     this.frameCount++;
 
-    // Calculate key angles
-    const leftKneeAngle = calculateAngle(
-      keyLandmarks.leftHip,
-      keyLandmarks.leftKnee,
-      keyLandmarks.leftAnkle
-    );
-    
-    const rightKneeAngle = calculateAngle(
-      keyLandmarks.rightHip,
-      keyLandmarks.rightKnee,
-      keyLandmarks.rightAnkle
-    );
+    const completed = definition.hold
+      ? this.trackHold(definition, config, thresholds, values, timestamp)
+      : definition.reps
+      ? this.trackReps(definition, config, thresholds, values, side, timestamp)
+      : false;
 
-    const kneeAngle = Math.min(leftKneeAngle, rightKneeAngle);
+    const inStance = Boolean(definition.balance) &&
+      evaluateCondition(definition.balance.stances[config.stance].hold, values, thresholds);
+    if (definition.balance && this.trackBalance(definition, config, inStance, worldLandmarks, timestamp)) {
+      setEvent = 'allSetsCompleted';
+    }
 
-    const hipAngle = calculateAngle(
-      keyLandmarks.leftShoulder,
-      keyLandmarks.leftHip,
-      keyLandmarks.leftKnee
-    );
+    // Generate feedback
+    for (const rule of definition.feedback) {
+      if (
+        !appliesInView(rule.views, view) ||
+        !appliesToSide(rule.sides, config.side) ||
+        !evaluateCondition(rule.when, values, thresholds)
+      ) continue;
 
-    // Check squat depth
-    const isInBottomPosition = kneeAngle < 120;
-    const hasGoodDepth = kneeAngle < 90;
-
-    // Knee valgus check (knees caving in)
-    const leftKneeX = keyLandmarks.leftKnee.x;
-    const leftAnkleX = keyLandmarks.leftAnkle.x;
-    const rightKneeX = keyLandmarks.rightKnee.x;
-    const rightAnkleX = keyLandmarks.rightAnkle.x;
-    
-    const leftValgus = leftKneeX < leftAnkleX - 0.02;
-    const rightValgus = rightKneeX > rightAnkleX + 0.02;
-
-    // Torso lean check
-    const shoulderMidpoint = {
-      x: (keyLandmarks.leftShoulder.x + keyLandmarks.rightShoulder.x) / 2,
-      y: (keyLandmarks.leftShoulder.y + keyLandmarks.rightShoulder.y) / 2,
-      z: (keyLandmarks.leftShoulder.z + keyLandmarks.rightShoulder.z) / 2
-    };
-    
-    const hipMidpoint = {
-      x: (keyLandmarks.leftHip.x + keyLandmarks.rightHip.x) / 2,
-      y: (keyLandmarks.leftHip.y + keyLandmarks.rightHip.y) / 2,
-      z: (keyLandmarks.leftHip.z + keyLandmarks.rightHip.z) / 2
-    };
+      feedback.push({
+        type: rule.type,
+        message: formatMessage(rule.message, values, thresholds),
+        priority: rule.priority
+      });
+      score -= rule.penalty;
+      if (rule.flag) this.repFlags.add(rule.flag);
+    }
 
-    const torsoLean = Math.abs(shoulderMidpoint.x - hipMidpoint.x);
-    const excessiveLean = torsoLean > 0.05;
-
-    // Rep counting
-    if (isInBottomPosition && this.lastPosition === 'up') {
-      this.lastPosition = 'down';
-    } else if (!isInBottomPosition && this.lastPosition === 'down') {
-      this.repCount++;
-      this.lastPosition = 'up';
-      
-      // Store rep data
-      const rep: RepData = {
-        repIndex: this.repCount,
-        angles: { knee: kneeAngle, hip: hipAngle, shoulder: 0 },
-        flags: [],
-        score: this.currentScore,
-        timestamp: Date.now()
-      };
-      
-      if (!hasGoodDepth) rep.flags.push('shallow_squat');
-      if (leftValgus || rightValgus) rep.flags.push('knee_valgus');
-      if (excessiveLean) rep.flags.push('excessive_lean');
-      
-      this.repData.push(rep);
+    if (this.tempoCue && timestamp < this.tempoCue.until) {
+      feedback.push({ type: 'warning', message: this.tempoCue.message, priority: 3 });
     }
 
-    // Generate feedback
-    if (isInBottomPosition) {
-      if (!hasGoodDepth) {
-        feedback.push({
-          type: 'warning',
-          message: 'Go a bit deeper - aim for thighs parallel to floor',
-          priority: 3
-        });
-        score -= 15;
-      } else {
-        feedback.push({
-          type: 'success',
-          message: 'Great depth!',
-          priority: 1
-        });
-      }
+    if (definition.hold && this.holdTimer?.hasDrifted(timestamp)) {
+      feedback.push({ type: 'warning', message: definition.hold.driftMessage, priority: 4 });
     }
 
-    if (leftValgus || rightValgus) {
-      feedback.push({
-        type: 'error',
-        message: 'Push your knees out - don\'t let them cave in',
-        priority: 4
-      });
-      score -= 20;
+    if (definition.balance) {
+      if (!this.swayTracker.isStarted()) {
+        feedback.push({ type: 'info', message: definition.balance.stances[config.stance].setupMessage, priority: 4 });
+      } else if (this.swayTracker.hasLostBalance()) {
+        feedback.push({ type: 'warning', message: definition.balance.lossMessage, priority: 4 });
+      }
     }
 
-    if (excessiveLean) {
+    const preferredView = definition.view?.preferred;
+    if (preferredView && view && view !== preferredView) {
       feedback.push({
-        type: 'warning',
-        message: 'Keep your chest up and back straight',
+        type: 'info',
+        message: `${TURN_PROMPTS[preferredView]} for the most accurate feedback`,
         priority: 2
       });
-      score -= 10;
     }
 
-    // Frame rate limiting for feedback
-    if (this.frameCount % 30 === 0) { // Every ~1 second at 30fps
-      if (feedback.length === 0 && isInBottomPosition) {
-        feedback.push({
-          type: 'info',
-          message: 'Looking good! Keep it controlled',
-          priority: 0
-        });
-      }
+    const isInPosition = evaluateCondition(definition.inPosition, values, thresholds);
+
+    // Frame rate limiting for encouragement
+    const { encouragement } = definition;
+    if (
+      encouragement &&
+      this.frameCount % encouragement.everyFrames === 0 &&
+      feedback.length === 0 &&
+      evaluateCondition(encouragement.when, values, thresholds)
+    ) {
+      feedback.push({ type: 'info', message: encouragement.message, priority: 0 });
     }
 
     this.currentScore = Math.max(0, score);
 
+    const lastSample = this.scoreTimeline[this.scoreTimeline.length - 1];
+    if (!lastSample || timestamp - lastSample.timestamp >= SCORE_SAMPLE_INTERVAL_MS) {
+      this.scoreTimeline.push({ timestamp, score: this.currentScore });
+    }
+
+    if (completed) {
+      this.completeRep(definition, config, thresholds, timestamp);
+      // Tests end on their own limit rather than the rep target
+      if (!definition.test && this.setRepCount >= config.targetReps) {
+        setEvent = this.completeSet(config, timestamp);
+      }
+    }
+
+    if (definition.test && this.updateTest(definition, timestamp)) {
+      setEvent = 'allSetsCompleted';
+    }
+
     return {
       score: this.currentScore,
+      averageScore: this.getAverageScore(),
       feedback: feedback.sort((a, b) => b.priority - a.priority).slice(0, 2),
-      repCount: this.repCount,
-      isInPosition: isInBottomPosition,
-      angles: { knee: kneeAngle, hip: hipAngle, shoulder: 0 }
+      repCount: this.setRepCount,
+      set: this.getSetProgress(config),
+      setEvent,
+      hold: this.getHoldProgress(definition, config),
+      side: this.getSideProgress(definition, config),
+      test: this.getTestProgress(definition, timestamp),
+      balance: this.getBalanceProgress(definition, config, inStance),
+      view: this.getViewProgress(definition),
+      isInPosition,
+      bodyInFrame: true,
+      missingLandmarks,
+      angles: {
+        knee: values[definition.angles.knee?.measurement] ?? 0,
+        hip: values[definition.angles.hip?.measurement] ?? 0,
+        shoulder: values[definition.angles.shoulder?.measurement] ?? 0,
+        ankle: values[definition.angles.ankle?.measurement] ?? 0
+      }
     };
   }
 
-  analyzeShoulderAbduction(landmarks: PoseLandmark[], config: ExerciseConfig): {
-    score: number;
-    feedback: FeedbackMessage[];
-    repCount: number;
-    isInPosition: boolean;
-    angles: { knee: number; hip: number; shoulder: number };
-  } {
-    const keyLandmarks = getKeyLandmarks(landmarks);
-    const feedback: FeedbackMessage[] = [];
-    let score = 100;
+  // Counts reps and times their phases; returns true on the frame a rep completes
+  private trackReps(
+    definition: ExerciseDefinition,
+    config: ExerciseConfig,
+    thresholds: Record<string, number>,
+    values: MeasurementValues,
+    side: Side | null,
+    timestamp: number
+  ): boolean {
+    // Undefined while the working side isn't leading, which leaves the rep where it is
+    const repValue = getRepValue(definition, side, values);
+    const repCounter = this.getRepCounter(definition, thresholds);
+    const repEvent = repValue === undefined ? null : repCounter.update(repValue, timestamp);
+    const tempoTracker = this.tempoTracker!;
+
+    if (repEvent === 'started' && definition.test) {
+      this.testStartedAt ??= timestamp;
+    }
 
-    // Calculate shoulder angles
-    const leftShoulderAngle = calculateAngle(
-      keyLandmarks.leftElbow,
-      keyLandmarks.leftShoulder,
-      keyLandmarks.leftHip
-    );
-    
-    const rightShoulderAngle = calculateAngle(
-      keyLandmarks.rightElbow,
-      keyLandmarks.rightShoulder,
-      keyLandmarks.rightHip
+    if (repEvent === 'started' || repEvent === 'abandoned') {
+      this.startRep(repEvent === 'started' ? timestamp : null);
+      if (repEvent === 'started') {
+        tempoTracker.start(timestamp);
+      } else {
+        tempoTracker.reset();
+      }
+    }
+    this.trackExtremes(values);
+
+    // Judge the way out and the pause as soon as the movement turns back
+    if (repValue !== undefined && tempoTracker.update(repValue, timestamp)) {
+      const tempo = tempoTracker.measure(timestamp, definition.tempo.outbound);
+      const { pause, eccentric } = config.tempo;
+      if (tempo && pause > 0 && tempo.pause < pause * TEMPO_TOLERANCE) {
+        this.tempoCue = { message: definition.tempo.pauseMessage, until: timestamp + TEMPO_CUE_MS };
+      } else if (
+        tempo &&
+        definition.tempo.outbound === 'eccentric' &&
+        tempo.eccentric < eccentric * TEMPO_TOLERANCE
+      ) {
+        this.tempoCue = { message: definition.tempo.slowDownMessage, until: timestamp + TEMPO_CUE_MS };
+      }
+    }
+
+    return repEvent === 'completed';
+  }
+
+  // Runs the hold timer; returns true once the hold reaches its target time, so it
+  // can be recorded like a rep
+  private trackHold(
+    definition: ExerciseDefinition,
+    config: ExerciseConfig,
+    thresholds: Record<string, number>,
+    values: MeasurementValues,
+    timestamp: number
+  ): boolean {
+    if (!this.holdTimer || this.holdTimerExercise !== definition.id) {
+      this.holdTimer = new HoldTimer(definition.hold.graceMs);
+      this.holdTimerExercise = definition.id;
+    }
+
+    const inTarget = evaluateCondition(definition.hold.target, values, thresholds);
+    if (this.holdTimer.update(inTarget, timestamp)) {
+      this.startRep(timestamp);
+    }
+    if (!this.holdTimer.isHolding()) return false;
+
+    this.trackExtremes(values);
+    return this.holdTimer.getElapsedSeconds() >= getHoldTarget(definition, config);
+  }
+
+  // Feeds the sway tracker; returns true on the frame the test's time runs out
+  private trackBalance(
+    definition: ExerciseDefinition,
+    config: ExerciseConfig,
+    inStance: boolean,
+    worldLandmarks: PoseLandmark[] | undefined,
+    timestamp: number
+  ): boolean {
+    const { durationSeconds, graceMs, sway } = definition.balance;
+    if (!this.swayTracker || this.swayTrackerExercise !== definition.id) {
+      this.swayTracker = new SwayTracker(config.stance, config.vision, durationSeconds, graceMs);
+      this.swayTrackerExercise = definition.id;
+    }
+
+    // Sway is measured in metric world coordinates; image coordinates have no depth scale,
+    // so without world landmarks the result reports sway as not measured
+    const points = worldLandmarks?.length ? resolvePoints(definition, worldLandmarks) : null;
+    const relativeToBase = (name: string): SwayPosition => ({
+      x: points[name].x - points[sway.base].x,
+      z: points[name].z - points[sway.base].z
+    });
+    this.swayTracker.update(
+      inStance,
+      points ? { hip: relativeToBase(sway.hip), shoulder: relativeToBase(sway.shoulder) } : null,
+      timestamp
     );
 
-    const avgShoulderAngle = (leftShoulderAngle + rightShoulderAngle) / 2;
-    const shoulderSymmetry = Math.abs(leftShoulderAngle - rightShoulderAngle);
-
-    // Target ROM (90 degrees ± 10)
-    const targetAngle = 90;
-    const angleDeviation = Math.abs(avgShoulderAngle - targetAngle);
-    const isInTargetRange = angleDeviation <= 10;
-    const isInPosition = avgShoulderAngle > 45;
-
-    // Check for scapular hiking (shoulder shrugging)
-    const leftElbowY = keyLandmarks.leftElbow.y;
-    const leftShoulderY = keyLandmarks.leftShoulder.y;
-    const rightElbowY = keyLandmarks.rightElbow.y;
-    const rightShoulderY = keyLandmarks.rightShoulder.y;
-    
-    const leftHiking = leftElbowY < leftShoulderY;
-    const rightHiking = rightElbowY < rightShoulderY;
-
-    // Rep counting for shoulder abduction
-    if (isInPosition && avgShoulderAngle > 75 && this.lastPosition === 'down') {
-      this.lastPosition = 'up';
-    } else if (!isInPosition && avgShoulderAngle < 30 && this.lastPosition === 'up') {
-      this.repCount++;
-      this.lastPosition = 'down';
+    if (!this.swayTracker.isFinished()) return false;
+
+    this.balanceResult = this.swayTracker.getResult();
+    this.setSummaries.push(this.summarizeSet(timestamp));
+    this.setsComplete = true;
+    return true;
+  }
+
+  private getViewProgress(definition: ExerciseDefinition): ViewProgress {
+    const current = this.viewClassifier.getView();
+    const target = definition.view?.required ?? definition.view?.preferred ?? null;
+    return { current, target, shouldTurn: current !== null && target !== null && current !== target };
+  }
+
+  private getBalanceProgress(
+    definition: ExerciseDefinition,
+    config: ExerciseConfig,
+    inStance: boolean
+  ): BalanceProgress | null {
+    if (!definition.balance || !this.swayTracker) return null;
+
+    const elapsedSeconds = this.swayTracker.getElapsedSeconds();
+    return {
+      stance: config.stance,
+      vision: config.vision,
+      elapsedSeconds,
+      remainingSeconds: Math.max(0, Math.ceil(definition.balance.durationSeconds - elapsedSeconds)),
+      lossCount: this.swayTracker.getLossCount(),
+      inStance,
+      result: this.balanceResult
+    };
+  }
+
+  private startRep(startedAt: number | null): void {
+    this.repExtremes = {};
+    this.repFlags.clear();
+    this.repStartedAt = startedAt;
+  }
+
+  private getHoldProgress(definition: ExerciseDefinition, config: ExerciseConfig): HoldProgress | null {
+    if (!definition.hold || !this.holdTimer) return null;
+    return {
+      elapsedSeconds: this.holdTimer.getElapsedSeconds(),
+      targetSeconds: getHoldTarget(definition, config),
+      inPosition: this.holdTimer.isRunning()
+    };
+  }
+
+  private getRepCounter(definition: ExerciseDefinition, thresholds: Record<string, number>): RepCounter {
+    if (!this.repCounter || this.repCounterExercise !== definition.id) {
+      const { direction, rest, target, hysteresis, minDwellMs, timeoutMs } = definition.reps;
+      this.repCounter = new RepCounter({
+        direction,
+        rest: resolveOperand(rest, {}, thresholds),
+        target: resolveOperand(target, {}, thresholds),
+        hysteresis,
+        minDwellMs,
+        timeoutMs
+      });
+      this.tempoTracker = new TempoTracker(direction, definition.tempo.pauseBand);
+      this.repCounterExercise = definition.id;
     }
 
-    // Generate feedback
-    if (angleDeviation > 15) {
-      if (avgShoulderAngle < targetAngle - 15) {
-        feedback.push({
-          type: 'warning',
-          message: 'Raise your arms higher - aim for 90 degrees',
-          priority: 3
-        });
-        score -= 15;
-      } else if (avgShoulderAngle > targetAngle + 15) {
-        feedback.push({
-          type: 'warning',
-          message: 'Lower your arms slightly - aim for 90 degrees',
-          priority: 3
-        });
-        score -= 10;
+    return this.repCounter;
+  }
+
+  private trackExtremes(values: MeasurementValues): void {
+    for (const [name, value] of Object.entries(values)) {
+      const extreme = this.repExtremes[name];
+      this.repExtremes[name] = extreme
+        ? { min: Math.min(extreme.min, value), max: Math.max(extreme.max, value) }
+        : { min: value, max: value };
+    }
+  }
+
+  private completeRep(
+    definition: ExerciseDefinition,
+    config: ExerciseConfig,
+    thresholds: Record<string, number>,
+    timestamp: number
+  ): void {
+    this.repCount++;
+    this.setRepCount++;
+
+    const peak = (display?: AngleDisplay) =>
+      display ? this.repExtremes[display.measurement]?.[display.peak] ?? 0 : 0;
+
+    const view = this.viewClassifier.getView();
+    const flags = new Set(this.repFlags);
+    for (const check of definition.reps?.checks ?? []) {
+      if (!appliesInView(check.views, view) || !appliesToSide(check.sides, config.side)) continue;
+      const extreme = this.repExtremes[check.measurement]?.[check.extreme];
+      const limit = typeof check.right === 'number' ? check.right : thresholds[check.right];
+      if (extreme !== undefined && compare(extreme, check.op, limit)) {
+        flags.add(check.flag);
       }
     }
 
-    if (shoulderSymmetry > 15) {
-      feedback.push({
-        type: 'error',
-        message: 'Keep both arms at the same level for symmetry',
-        priority: 4
-      });
-      score -= 20;
+    const holdSeconds = definition.hold ? this.holdTimer?.complete() ?? null : null;
+    const tempo = this.tempoTracker?.measure(timestamp, definition.tempo.outbound) ?? null;
+    this.tempoTracker?.reset();
+    if (tempo) {
+      const target = config.tempo;
+      if (tempo.eccentric < target.eccentric * TEMPO_TOLERANCE) {
+        flags.add('rushed_eccentric');
+        // For lifts the eccentric phase is the way back, so it can only be judged now
+        if (definition.tempo.outbound === 'concentric') {
+          this.tempoCue = { message: definition.tempo.slowDownMessage, until: timestamp + TEMPO_CUE_MS };
+        }
+      }
+      if (target.pause > 0 && tempo.pause < target.pause * TEMPO_TOLERANCE) {
+        flags.add('skipped_pause');
+      }
     }
 
-    if (leftHiking || rightHiking) {
-      feedback.push({
-        type: 'warning',
-        message: 'Relax your shoulders - don\'t shrug them up',
-        priority: 2
-      });
-      score -= 10;
+    const { side, rom } = this.measureSides(definition, config);
+    if (config.side === 'alternating' && side && side === this.getLastRep()?.side) {
+      flags.add('missed_alternation');
     }
 
-    if (isInTargetRange && shoulderSymmetry <= 10) {
-      feedback.push({
-        type: 'success',
-        message: 'Perfect form! Great ROM and symmetry',
-        priority: 1
-      });
+    const durationSeconds = this.repStartedAt !== null ? (timestamp - this.repStartedAt) / 1000 : undefined;
+    const scoreBreakdown = scoreRep(definition, thresholds, this.repExtremes, durationSeconds, tempo, view, config.side);
+    const maxPoints = scoreBreakdown.reduce((sum, component) => sum + component.maxPoints, 0);
+    const points = scoreBreakdown.reduce((sum, component) => sum + component.points, 0);
+
+    this.repData.push({
+      repIndex: this.repCount,
+      setIndex: this.setIndex,
+      angles: {
+        knee: peak(definition.angles.knee),
+        hip: peak(definition.angles.hip),
+        shoulder: peak(definition.angles.shoulder),
+        ankle: peak(definition.angles.ankle)
+      },
+      flags: [...flags],
+      score: maxPoints > 0 ? Math.round((points / maxPoints) * 100) : 0,
+      scoreBreakdown,
+      tempo,
+      holdSeconds,
+      side,
+      rom,
+      timestamp
+    });
+
+    this.repExtremes = {};
+    this.repFlags.clear();
+    this.repStartedAt = null;
+  }
+
+  // Each side's ROM is its measurement's excursion over the rep. Alternating reps
+  // belong to whichever side moved further.
+  private measureSides(
+    definition: ExerciseDefinition,
+    config: ExerciseConfig
+  ): { side: Side | null; rom: SideRom | null } {
+    if (!definition.sides) return { side: null, rom: null };
+
+    const excursion = (side: Side) => {
+      const extreme = this.repExtremes[definition.sides[side]];
+      return extreme ? Math.round(extreme.max - extreme.min) : 0;
+    };
+
+    if (config.side === 'bilateral') {
+      return { side: null, rom: { left: excursion('left'), right: excursion('right') } };
     }
 
-    this.currentScore = Math.max(0, score);
+    const side = config.side === 'alternating'
+      ? (excursion('left') >= excursion('right') ? 'left' : 'right')
+      : config.side;
+    return { side, rom: { [side]: excursion(side) } };
+  }
+
+  private getSideProgress(definition: ExerciseDefinition, config: ExerciseConfig): SideProgress | null {
+    if (!definition.sides || config.side === 'bilateral') return null;
+
+    const lastSide = this.getLastRep()?.side;
+    return {
+      setting: config.side,
+      next: config.side === 'alternating' ? (lastSide ? otherSide(lastSide) : 'left') : config.side,
+      repCounts: {
+        left: this.repData.filter(rep => rep.side === 'left').length,
+        right: this.repData.filter(rep => rep.side === 'right').length
+      }
+    };
+  }
+
+  // Returns true on the frame the test's limit is reached, which ends the session
+  private updateTest(definition: ExerciseDefinition, timestamp: number): boolean {
+    if (this.testStartedAt === null || this.testResult) return false;
+
+    const { limit } = definition.test;
+    if (limit.type === 'duration') {
+      if (timestamp - this.testStartedAt < limit.seconds * 1000) return false;
+      this.testEndedAt = timestamp;
+    } else {
+      // The clock stops as the last stand is reached; the session ends once that rep
+      // completes, so it is still recorded
+      if (this.testEndedAt === null && this.repData.length + (this.isAtPeak() ? 1 : 0) >= limit.count) {
+        this.testEndedAt = timestamp;
+      }
+      if (this.repData.length < limit.count) return false;
+    }
+
+    this.testResult = this.measureTest(definition, this.testEndedAt, true);
+    this.setSummaries.push(this.summarizeSet(timestamp));
+    this.setsComplete = true;
+    return true;
+  }
+
+  private measureTest(definition: ExerciseDefinition, timestamp: number, completed: boolean): TestResult {
+    const { measure, limit, armUseFlag } = definition.test;
+    // A stand that is up when time runs out still counts
+    const standing = this.isAtPeak();
+    const elapsedSeconds = Math.round((timestamp - (this.testStartedAt ?? timestamp)) / 100) / 10;
+
+    return {
+      measure,
+      value: limit.type === 'duration' ? this.repData.length + (standing ? 1 : 0) : elapsedSeconds,
+      completed,
+      armUse: this.repData.some(rep => rep.flags.includes(armUseFlag))
+    };
+  }
+
+  // Whether the current rep has reached its far end, e.g. the patient is standing
+  private isAtPeak(): boolean {
+    const phase = this.repCounter?.getPhase();
+    return phase === 'peak' || phase === 'returning';
+  }
+
+  private getTestProgress(definition: ExerciseDefinition, timestamp: number): TestProgress | null {
+    if (!definition.test) return null;
+
+    const { limit } = definition.test;
+    const elapsedSeconds = this.testStartedAt === null
+      ? 0
+      : ((this.testEndedAt ?? timestamp) - this.testStartedAt) / 1000;
+    return {
+      measure: definition.test.measure,
+      elapsedSeconds: Math.round(elapsedSeconds * 10) / 10,
+      remainingSeconds: limit.type === 'duration' ? Math.max(0, Math.ceil(limit.seconds - elapsedSeconds)) : null,
+      stands: this.testResult && limit.type === 'duration' ? this.testResult.value : this.repData.length,
+      result: this.testResult
+    };
+  }
+
+  private getLastRep(): RepData | undefined {
+    return this.repData[this.repData.length - 1];
+  }
+
+  private getAverageScore(): number {
+    if (this.repData.length === 0) return 0;
+    return Math.round(this.repData.reduce((sum, rep) => sum + rep.score, 0) / this.repData.length);
+  }
+
+  private completeSet(config: ExerciseConfig, timestamp: number): SetEvent {
+    this.setSummaries.push(this.summarizeSet(timestamp));
+
+    if (this.setIndex >= config.sets) {
+      this.setsComplete = true;
+      return 'allSetsCompleted';
+    }
+
+    this.restEndsAt = timestamp + config.restSeconds * 1000;
+    return 'setCompleted';
+  }
+
+  private startNextSet(timestamp: number): void {
+    this.setIndex++;
+    this.setRepCount = 0;
+    this.setStartedAt = timestamp;
+    this.restEndsAt = null;
+    this.repCounter?.reset();
+    this.tempoTracker?.reset();
+    this.holdTimer?.cancel();
+    this.repExtremes = {};
+    this.repFlags.clear();
+  }
+
+  private summarizeSet(endedAt: number): SetSummary {
+    const reps = this.repData.filter(rep => rep.setIndex === this.setIndex);
+    return {
+      setIndex: this.setIndex,
+      repCount: reps.length,
+      avgScore: reps.length > 0
+        ? Math.round(reps.reduce((sum, rep) => sum + rep.score, 0) / reps.length)
+        : 0,
+      flags: [...new Set(reps.flatMap(rep => rep.flags))],
+      startedAt: this.setStartedAt ?? endedAt,
+      endedAt
+    };
+  }
 
+  private getSetProgress(config: ExerciseConfig): SetProgress {
+    return {
+      current: this.setIndex,
+      total: config.sets,
+      phase: this.setsComplete ? 'complete' : this.restEndsAt !== null ? 'resting' : 'active',
+      restEndsAt: this.restEndsAt
+    };
+  }
+
+  // Result for frames where nothing is scored or counted
+  private pausedAnalysis(
+    definition: ExerciseDefinition,
+    config: ExerciseConfig,
+    timestamp: number,
+    feedback: FeedbackMessage[],
+    setEvent: SetEvent | null = null
+  ): ExerciseAnalysis {
     return {
       score: this.currentScore,
-      feedback: feedback.sort((a, b) => b.priority - a.priority).slice(0, 2),
-      repCount: this.repCount,
-      isInPosition: isInPosition,
-      angles: { knee: 0, hip: 0, shoulder: avgShoulderAngle }
+      averageScore: this.getAverageScore(),
+      feedback,
+      repCount: this.setRepCount,
+      set: this.getSetProgress(config),
+      setEvent,
+      hold: null,
+      side: null,
+      test: this.getTestProgress(definition, timestamp),
+      balance: this.getBalanceProgress(definition, config, false),
+      view: this.getViewProgress(definition),
+      isInPosition: false,
+      bodyInFrame: true,
+      missingLandmarks: [],
+      angles: { knee: 0, hip: 0, shoulder: 0, ankle: 0 }
     };
   }
 
   reset(): void {
     this.repCount = 0;
     this.currentScore = 0;
-    this.lastPosition = 'up';
+    this.repCounter = null;
+    this.repCounterExercise = null;
+    this.tempoTracker = null;
+    this.tempoCue = null;
+    this.holdTimer = null;
+    this.holdTimerExercise = null;
     this.repData = [];
     this.frameCount = 0;
+    this.repExtremes = {};
+    this.repFlags.clear();
+    this.repStartedAt = null;
+    this.scoreTimeline = [];
+    this.setIndex = 1;
+    this.setRepCount = 0;
+    this.setStartedAt = null;
+    this.restEndsAt = null;
+    this.setsComplete = false;
+    this.setSummaries = [];
+    this.testStartedAt = null;
+    this.testEndedAt = null;
+    this.testResult = null;
+    this.swayTracker = null;
+    this.swayTrackerExercise = null;
+    this.balanceResult = null;
+    this.viewClassifier = new ViewClassifier();
   }
 
   getRepData(): RepData[] {
     return this.repData;
   }
+
+  getScoreTimeline(): ScorePoint[] {
+    return this.scoreTimeline;
+  }
+
+  // The finished test, or the partial result if the session stops before its limit
+  getTestResult(): TestResult | null {
+    if (this.testResult) return this.testResult;
+    const definition = this.repCounterExercise ? EXERCISE_DEFINITIONS[this.repCounterExercise] : undefined;
+    if (!definition?.test || this.testStartedAt === null) return null;
+    return this.measureTest(definition, this.testEndedAt ?? Date.now(), false);
+  }
+
+  // The finished balance test, or the partial result if the session stops early
+  getBalanceResult(): BalanceResult | null {
+    if (this.balanceResult) return this.balanceResult;
+    return this.swayTracker?.isStarted() ? this.swayTracker.getResult() : null;
+  }
+
+  // Null for repetition exercises
+  getHoldStats(): HoldStats | null {
+    return this.holdTimer?.getStats(this.repData.length) ?? null;
+  }
+
+  // Completed sets, plus the set in progress if it has any reps
+  getSetSummaries(): SetSummary[] {
+    const inProgress = !this.setsComplete && this.restEndsAt === null && this.setRepCount > 0;
+    return inProgress
+      ? [...this.setSummaries, this.summarizeSet(this.repData[this.repData.length - 1].timestamp)]
+      : [...this.setSummaries];
+  }
 }
 
-export const EXERCISE_CONFIGS: Record<string, ExerciseConfig> = {
-  squat: {
-    name: 'Squat',
-    targetReps: 10,
-    thresholds: {
-      depth: 90,
-      valgusLimit: 0.02,
-      leanLimit: 0.05
-    }
-  },
-  shoulderAbduction: {
-    name: 'Shoulder Abduction',
-    targetReps: 15,
-    thresholds: {
-      romMin: 80,
-      romMax: 100,
-      symmetryLimit: 15
+// Holds have no movement to time
+const NO_TEMPO: TempoTarget = { eccentric: 0, pause: 0, concentric: 0 };
+
+export const EXERCISE_CONFIGS: Record<string, ExerciseConfig> = Object.fromEntries(
+  Object.values(EXERCISE_DEFINITIONS).map(definition => [
+    definition.id,
+    {
+      name: definition.name,
+      targetReps: definition.targetReps,
+      sets: 1,
+      restSeconds: 60,
+      holdSeconds: definition.hold?.targetSeconds ?? 0,
+      tempo: { ...(definition.tempo?.target ?? NO_TEMPO) } as TempoTarget,
+      side: definition.sides?.default ?? 'bilateral',
+      stance: definition.balance?.default ?? 'doubleLeg',
+      vision: 'eyesOpen',
+      thresholds: { ...definition.thresholds }
     }
+  ])
+);
+
+// One line of a clinician's prescription; thresholds override the exercise defaults
+export interface PrescribedExercise {
+  id: string;
+  exercise: string;
+  sets: number;
+  reps: number;
+  restSeconds: number;
+  holdSeconds: number;
+  tempo?: TempoTarget;
+  // Absent on prescriptions saved before side tracking
+  side?: SideSetting;
+  // Absent on prescriptions saved before balance tests
+  stance?: BalanceStance;
+  vision?: Vision;
+  thresholds: Record<string, number>;
+}
+
+export const createPrescribedConfig = (item: PrescribedExercise): ExerciseConfig => {
+  const base = EXERCISE_CONFIGS[item.exercise];
+  return {
+    name: base.name,
+    targetReps: item.reps,
+    sets: item.sets,
+    restSeconds: item.restSeconds,
+    holdSeconds: item.holdSeconds,
+    tempo: item.tempo ?? base.tempo,
+    side: item.side ?? base.side,
+    stance: item.stance ?? base.stance,
+    vision: item.vision ?? base.vision,
+    thresholds: { ...base.thresholds, ...item.thresholds }
+  };
+};
+
+// Components whose value wasn't observed during the rep, or that can't be judged
+// from the current camera view, are left out of the score
+const scoreRep = (
+  definition: ExerciseDefinition,
+  thresholds: Record<string, number>,
+  extremes: Record<string, { min: number; max: number }>,
+  durationSeconds: number | undefined,
+  tempo: RepTempo | null,
+  view: CameraView | null,
+  side: SideSetting
+): RepScoreComponent[] =>
+  definition.scoring.flatMap(component => {
+    if (
+      component.type === 'extreme' &&
+      (!appliesInView(component.views, view) || !appliesToSide(component.sides, side))
+    ) return [];
+    const value = component.type === 'duration'
+      ? (component.of === 'pause' ? tempo?.pause : durationSeconds)
+      : extremes[component.measurement]?.[component.extreme];
+    if (value === undefined) return [];
+
+    const ideal = resolveOperand(component.ideal, {}, thresholds);
+    const worst = resolveOperand(component.worst, {}, thresholds);
+    const share = ideal === worst
+      ? Number(value === ideal)
+      : Math.min(1, Math.max(0, (worst - value) / (worst - ideal)));
+
+    return [{
+      id: component.id,
+      label: component.label,
+      value,
+      points: Math.round(share * component.weight * 10) / 10,
+      maxPoints: component.weight
+    }];
+  });
+
+// The side worked this frame: the prescribed one, or for alternating reps whichever
+// side is further into the movement. Null while both sides work or neither is measured.
+const getWorkingSide = (
+  definition: ExerciseDefinition,
+  config: ExerciseConfig,
+  values: MeasurementValues
+): Side | null => {
+  const { sides, reps } = definition;
+  if (!sides || config.side === 'bilateral') return null;
+  if (config.side !== 'alternating') return config.side;
+
+  const left = values[sides.left];
+  const right = values[sides.right];
+  if (left === undefined || right === undefined) {
+    return left !== undefined ? 'left' : right !== undefined ? 'right' : null;
+  }
+  const leftFurther = reps.direction === 'decreasing' ? left <= right : left >= right;
+  return leftFurther ? 'left' : 'right';
+};
+
+// Swaps each two-sided measurement for the working side's version
+const readSide = (definition: ExerciseDefinition, side: Side | null, values: MeasurementValues): MeasurementValues => {
+  if (!side) return values;
+
+  const sided = { ...values };
+  for (const [name, perSide] of Object.entries(definition.sides.measurements)) {
+    if (perSide[side] in values) sided[name] = values[perSide[side]];
   }
-};
\ No newline at end of file
+  return sided;
+};
+
+// Single-side work counts reps on that side's measurement
+const getRepValue = (definition: ExerciseDefinition, side: Side | null, values: MeasurementValues): number | undefined =>
+  side ? values[definition.sides[side]] : values[definition.reps.measurement];
+
+const getHoldTarget = (definition: ExerciseDefinition, config: ExerciseConfig): number =>
+  config.holdSeconds || definition.hold.targetSeconds;
+
+// Fill any thresholds a tuned config leaves out with the exercise defaults
+const resolveThresholds = (
+  definition: ExerciseDefinition,
+  config: ExerciseConfig
+): Record<string, number> => {
+  const overrides = Object.fromEntries(
+    Object.entries(config.thresholds).filter(([, value]) => value !== undefined)
+  );
+  return { ...definition.thresholds, ...overrides };
+};
@@ -0,0 +1,43 @@
+import { ExerciseDefinition, parseExerciseDefinition } from '../exercise-definition';
+import squat from './squat.json';
+import shoulderAbduction from './shoulder-abduction.json';
+import wallSit from './wall-sit.json';
+import plank from './plank.json';
+import singleLegBalance from './single-leg-balance.json';
+import shoulderAbductionHold from './shoulder-abduction-hold.json';
+import lunge from './lunge.json';
+import sitToStand from './sit-to-stand.json';
+import chairStand30 from './chair-stand-30.json';
+import fiveTimesSitToStand from './five-times-sit-to-stand.json';
+import gluteBridge from './glute-bridge.json';
+import shoulderFlexion from './shoulder-flexion.json';
+import shoulderExternalRotation from './shoulder-external-rotation.json';
+import heelRaise from './heel-raise.json';
+import singleLegHeelRaise from './single-leg-heel-raise.json';
+import kneeToWall from './knee-to-wall.json';
+import balanceTest from './balance-test.json';
+
+// Add new exercises by dropping a definition file in this folder and listing it here
+export const EXERCISE_DEFINITIONS: Record<string, ExerciseDefinition> = Object.fromEntries(
+  [
+    squat,
+    shoulderAbduction,
+    wallSit,
+    plank,
+    singleLegBalance,
+    shoulderAbductionHold,
+    lunge,
+    // The timed sit-to-stand tests share their measurements, feedback and scoring
+    { ...sitToStand, ...chairStand30 },
+    { ...sitToStand, ...fiveTimesSitToStand },
+    gluteBridge,
+    shoulderFlexion,
+    shoulderExternalRotation,
+    heelRaise,
+    singleLegHeelRaise,
+    kneeToWall,
+    balanceTest
+  ]
+    .map(parseExerciseDefinition)
+    .map(definition => [definition.id, definition])
+);
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { HoldTimer } from './hold';
+
+// One frame every 100ms from `from` up to, but not including, `to`
+const frames = (timer: HoldTimer, inPosition: boolean, from: number, to: number) => {
+  for (let t = from; t < to; t += 100) timer.update(inPosition, t);
+};
+
+describe('HoldTimer', () => {
+  it('only adds time while in position', () => {
+    const timer = new HoldTimer(500);
+    frames(timer, false, 0, 1000);
+    expect(timer.isHolding()).toBe(false);
+
+    frames(timer, true, 1000, 3100);
+    expect(timer.getElapsedSeconds()).toBe(2);
+
+    frames(timer, false, 3100, 4000);
+    expect(timer.getElapsedSeconds()).toBe(2);
+    expect(timer.isRunning()).toBe(false);
+  });
+
+  it('reports drifting only after the grace period', () => {
+    const timer = new HoldTimer(500);
+    frames(timer, true, 0, 1000);
+    timer.update(false, 1000);
+    expect(timer.hasDrifted(1300)).toBe(false);
+    expect(timer.hasDrifted(1600)).toBe(true);
+  });
+
+  it('keeps the longest unbroken stretch across brief excursions', () => {
+    const timer = new HoldTimer(500);
+    frames(timer, true, 0, 2100);
+    frames(timer, false, 2100, 2400);
+    frames(timer, true, 2400, 3500);
+    frames(timer, false, 3500, 4500);
+    frames(timer, true, 4500, 5100);
+    expect(timer.getStats(1).longestSeconds).toBe(3.1);
+  });
+
+  it('waits for the patient to leave the position before the next hold', () => {
+    const timer = new HoldTimer(500);
+    frames(timer, true, 0, 1100);
+    expect(timer.complete()).toBe(1);
+
+    frames(timer, true, 1100, 2000);
+    expect(timer.isHolding()).toBe(false);
+
+    frames(timer, false, 2000, 2700);
+    expect(timer.update(true, 2700)).toBe(true);
+  });
+
+  it('ignores time across large frame gaps', () => {
+    const timer = new HoldTimer(500);
+    timer.update(true, 0);
+    timer.update(true, 100);
+    timer.update(true, 5000);
+    expect(timer.getElapsedSeconds()).toBe(0.1);
+  });
+});
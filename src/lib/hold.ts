@@ -0,0 +1,112 @@
+// Live state of the hold in progress
+export interface HoldProgress {
+  elapsedSeconds: number;
+  targetSeconds: number;
+  // False while the patient has drifted out of the target position and the timer is paused
+  inPosition: boolean;
+}
+
+export interface HoldStats {
+  holdCount: number;
+  // Time spent in position across the session
+  totalSeconds: number;
+  // Longest unbroken stretch in position
+  longestSeconds: number;
+}
+
+// Frames further apart than this (e.g. while the body was out of frame) add no hold time
+const MAX_FRAME_GAP_MS = 500;
+
+const round = (seconds: number) => Math.round(seconds * 10) / 10;
+
+// Times an isometric hold. The timer only runs on frames spent in the target
+// position; leaving it for longer than `graceMs` breaks the unbroken stretch
+// used for the longest hold, but the hold itself resumes when the patient returns.
+export class HoldTimer {
+  private lastTimestamp: number | null = null;
+  private startedAt: number | null = null;
+  private elapsedMs = 0;
+  private streakMs = 0;
+  private longestMs = 0;
+  private totalMs = 0;
+  private outSince: number | null = null;
+  // After a hold completes the patient must leave the position before the next one starts
+  private awaitingRelease = false;
+
+  constructor(private readonly graceMs: number) {}
+
+  // Returns true on the frame a new hold starts
+  update(inPosition: boolean, timestamp: number): boolean {
+    const gap = this.lastTimestamp === null ? 0 : timestamp - this.lastTimestamp;
+    const frameMs = gap <= MAX_FRAME_GAP_MS ? gap : 0;
+    this.lastTimestamp = timestamp;
+
+    if (!inPosition) {
+      this.outSince ??= timestamp;
+      if (timestamp - this.outSince > this.graceMs) {
+        this.streakMs = 0;
+        this.awaitingRelease = false;
+      }
+      return false;
+    }
+
+    this.outSince = null;
+    if (this.awaitingRelease) return false;
+
+    const started = this.startedAt === null;
+    if (started) {
+      this.startedAt = timestamp;
+    } else {
+      this.elapsedMs += frameMs;
+      this.streakMs += frameMs;
+      this.totalMs += frameMs;
+      this.longestMs = Math.max(this.longestMs, this.streakMs);
+    }
+    return started;
+  }
+
+  isHolding(): boolean {
+    return this.startedAt !== null;
+  }
+
+  // Whether time is being added on this frame
+  isRunning(): boolean {
+    return this.isHolding() && this.outSince === null;
+  }
+
+  // True once the hold has been out of position for longer than the grace period
+  hasDrifted(timestamp: number): boolean {
+    return this.isHolding() && this.outSince !== null && timestamp - this.outSince > this.graceMs;
+  }
+
+  getElapsedSeconds(): number {
+    return round(this.elapsedMs / 1000);
+  }
+
+  // Ends the current hold, returning its time in position
+  complete(): number {
+    const seconds = this.getElapsedSeconds();
+    this.startedAt = null;
+    this.elapsedMs = 0;
+    this.awaitingRelease = true;
+    return seconds;
+  }
+
+  // Drops the hold in progress without touching the session totals
+  cancel(): void {
+    this.startedAt = null;
+    this.elapsedMs = 0;
+    this.streakMs = 0;
+    this.outSince = null;
+    this.lastTimestamp = null;
+    this.awaitingRelease = false;
+  }
+
+  getStats(holdCount: number): HoldStats {
+    return {
+      holdCount,
+      totalSeconds: round(this.totalMs / 1000),
+      longestSeconds: round(this.longestMs / 1000)
+    };
+  }
+}
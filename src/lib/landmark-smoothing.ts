@@ -0,0 +1,141 @@
+import { PoseLandmark } from './pose-detection';
+
+export type SmoothingMethod = 'oneEuro' | 'ema' | 'kalman';
+
+export interface SmoothingSettings {
+  enabled: boolean;
+  method: SmoothingMethod;
+  oneEuro: {
+    minCutoff: number; // Hz, lower = smoother at rest
+    beta: number; // Speed coefficient, higher = less lag on fast moves
+    dCutoff: number; // Hz, cutoff for the derivative estimate
+  };
+  ema: {
+    alpha: number; // 0-1, weight of the newest sample
+  };
+  kalman: {
+    processNoise: number;
+    measurementNoise: number;
+  };
+}
+
+export const DEFAULT_SMOOTHING_SETTINGS: SmoothingSettings = {
+  enabled: true,
+  method: 'oneEuro',
+  oneEuro: { minCutoff: 1.0, beta: 0.5, dCutoff: 1.0 },
+  ema: { alpha: 0.5 },
+  kalman: { processNoise: 0.01, measurementNoise: 0.1 }
+};
+
+interface ScalarFilter {
+  filter(value: number, timestamp: number): number;
+}
+
+class OneEuroFilter implements ScalarFilter {
+  private lastValue: number | null = null;
+  private lastDerivative = 0;
+  private lastTimestamp: number | null = null;
+
+  constructor(private readonly params: SmoothingSettings['oneEuro']) {}
+
+  filter(value: number, timestamp: number): number {
+    if (this.lastValue === null || this.lastTimestamp === null || timestamp <= this.lastTimestamp) {
+      this.lastValue = value;
+      this.lastTimestamp = timestamp;
+      return value;
+    }
+
+    const dt = (timestamp - this.lastTimestamp) / 1000;
+    const derivative = (value - this.lastValue) / dt;
+    const dAlpha = smoothingFactor(this.params.dCutoff, dt);
+    this.lastDerivative = dAlpha * derivative + (1 - dAlpha) * this.lastDerivative;
+
+    const cutoff = this.params.minCutoff + this.params.beta * Math.abs(this.lastDerivative);
+    const alpha = smoothingFactor(cutoff, dt);
+    this.lastValue = alpha * value + (1 - alpha) * this.lastValue;
+    this.lastTimestamp = timestamp;
+
+    return this.lastValue;
+  }
+}
+
+class EmaFilter implements ScalarFilter {
+  private lastValue: number | null = null;
+
+  constructor(private readonly params: SmoothingSettings['ema']) {}
+
+  filter(value: number): number {
+    this.lastValue = this.lastValue === null
+      ? value
+      : this.params.alpha * value + (1 - this.params.alpha) * this.lastValue;
+    return this.lastValue;
+  }
+}
+
+// Constant-position Kalman filter, one per coordinate
+class KalmanFilter implements ScalarFilter {
+  private estimate: number | null = null;
+  private errorCovariance = 1;
+
+  constructor(private readonly params: SmoothingSettings['kalman']) {}
+
+  filter(value: number): number {
+    if (this.estimate === null) {
+      this.estimate = value;
+      return value;
+    }
+
+    this.errorCovariance += this.params.processNoise;
+    const gain = this.errorCovariance / (this.errorCovariance + this.params.measurementNoise);
+    this.estimate += gain * (value - this.estimate);
+    this.errorCovariance *= 1 - gain;
+
+    return this.estimate;
+  }
+}
+
+const smoothingFactor = (cutoff: number, dt: number): number => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+const createScalarFilter = (settings: SmoothingSettings): ScalarFilter => {
+  switch (settings.method) {
+    case 'oneEuro': return new OneEuroFilter(settings.oneEuro);
+    case 'ema': return new EmaFilter(settings.ema);
+    case 'kalman': return new KalmanFilter(settings.kalman);
+  }
+};
+
+// Smooths each coordinate of each landmark independently over time
+export class LandmarkSmoother {
+  private filters: Array<{ x: ScalarFilter; y: ScalarFilter; z: ScalarFilter }> = [];
+
+  constructor(private readonly settings: SmoothingSettings) {}
+
+  smooth(landmarks: PoseLandmark[], timestamp: number): PoseLandmark[] {
+    if (!this.settings.enabled) return landmarks;
+
+    return landmarks.map((landmark, index) => {
+      if (!this.filters[index]) {
+        this.filters[index] = {
+          x: createScalarFilter(this.settings),
+          y: createScalarFilter(this.settings),
+          z: createScalarFilter(this.settings)
+        };
+      }
+
+      const filter = this.filters[index];
+      return {
+        x: filter.x.filter(landmark.x, timestamp),
+        y: filter.y.filter(landmark.y, timestamp),
+        z: filter.z.filter(landmark.z, timestamp),
+        visibility: landmark.visibility
+      };
+    });
+  }
+
+  reset(): void {
+    this.filters = [];
+  }
+}
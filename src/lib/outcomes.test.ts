@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { TestResult, formatOutcomeValue, getAge, scoreOutcome } from './outcomes';
+
+const AT = new Date(2026, 5, 15).getTime();
+
+const chairStand = (value: number): TestResult => ({ measure: 'chairStand30', value, completed: true, armUse: false });
+const fiveTimes = (value: number): TestResult => ({ measure: 'fiveTimesSitToStand', value, completed: true, armUse: false });
+
+describe('getAge', () => {
+  it('counts whole years, including the birthday itself', () => {
+    expect(getAge('1950-06-15', AT)).toBe(76);
+    expect(getAge('1950-06-16', AT)).toBe(75);
+  });
+});
+
+describe('scoreOutcome', () => {
+  it('rates chair stands against the age and sex band', () => {
+    const patient = { dateOfBirth: '1954-01-01', sex: 'female' as const };
+    expect(scoreOutcome(chairStand(9), patient, AT).norm).toEqual({
+      ageBand: '70-74',
+      reference: '10-15 stands',
+      rating: 'below'
+    });
+    expect(scoreOutcome(chairStand(12), patient, AT).norm.rating).toBe('within');
+    expect(scoreOutcome(chairStand(16), patient, AT).norm.rating).toBe('above');
+    expect(scoreOutcome(chairStand(12), { ...patient, sex: 'male' }, AT).norm.reference).toBe('12-17 stands');
+  });
+
+  it('rates five times sit-to-stand against the reference time', () => {
+    const patient = { dateOfBirth: '1960-01-01' };
+    expect(scoreOutcome(fiveTimes(11), patient, AT).norm).toEqual({
+      ageBand: '60-69',
+      reference: '11.4s or faster',
+      rating: 'within'
+    });
+    expect(scoreOutcome(fiveTimes(12), patient, AT).norm.rating).toBe('below');
+  });
+
+  it('has no norm without the details the norms need', () => {
+    expect(scoreOutcome(chairStand(12), { dateOfBirth: '1954-01-01' }, AT).norm).toBeNull();
+    expect(scoreOutcome(chairStand(12), null, AT).norm).toBeNull();
+    expect(scoreOutcome(fiveTimes(10), { dateOfBirth: '1990-01-01' }, AT).norm).toBeNull();
+    expect(scoreOutcome({ ...fiveTimes(10), completed: false }, { dateOfBirth: '1960-01-01' }, AT).norm).toBeNull();
+  });
+});
+
+describe('formatOutcomeValue', () => {
+  it('uses the measure unit', () => {
+    expect(formatOutcomeValue(chairStand(14))).toBe('14 stands');
+    expect(formatOutcomeValue(fiveTimes(9.8))).toBe('9.8s');
+  });
+});
@@ -0,0 +1,98 @@
+export type OutcomeMeasureId = 'chairStand30' | 'fiveTimesSitToStand';
+
+export type Sex = 'female' | 'male';
+
+export const OUTCOME_MEASURES: Record<OutcomeMeasureId, { label: string; unit: 'stands' | 'seconds' }> = {
+  chairStand30: { label: '30-Second Chair Stand', unit: 'stands' },
+  fiveTimesSitToStand: { label: 'Five Times Sit-to-Stand', unit: 'seconds' }
+};
+
+// Raw result of a timed test, as measured by the analyzer
+export interface TestResult {
+  measure: OutcomeMeasureId;
+  // Full stands for a fixed-duration test, seconds for a fixed-reps test
+  value: number;
+  // False if the session ended before the test did
+  completed: boolean;
+  // Arms were used to push off or swing, so the result doesn't follow the standard protocol
+  armUse: boolean;
+}
+
+export interface NormComparison {
+  ageBand: string;
+  // Expected result for the age band, e.g. "12-17 stands"
+  reference: string;
+  // "below" is always the worse result: fewer stands, or a slower time
+  rating: 'below' | 'within' | 'above';
+}
+
+export interface OutcomeResult extends TestResult {
+  // Null when the test wasn't completed or the patient's age (and sex, where the
+  // norms need it) isn't recorded or falls outside the published bands
+  norm: NormComparison | null;
+}
+
+// Normal ranges from Rikli & Jones, Senior Fitness Test Manual (2001)
+const CHAIR_STAND_NORMS: Array<{ minAge: number; maxAge: number } & Record<Sex, [number, number]>> = [
+  { minAge: 60, maxAge: 64, female: [12, 17], male: [14, 19] },
+  { minAge: 65, maxAge: 69, female: [11, 16], male: [12, 18] },
+  { minAge: 70, maxAge: 74, female: [10, 15], male: [12, 17] },
+  { minAge: 75, maxAge: 79, female: [10, 15], male: [11, 17] },
+  { minAge: 80, maxAge: 84, female: [9, 14], male: [10, 15] },
+  { minAge: 85, maxAge: 89, female: [8, 13], male: [8, 14] },
+  { minAge: 90, maxAge: 94, female: [4, 11], male: [7, 12] }
+];
+
+// Reference times from Bohannon, Percept Mot Skills (2006); slower than these is below norm
+const FIVE_STS_NORMS: Array<{ minAge: number; maxAge: number; seconds: number }> = [
+  { minAge: 60, maxAge: 69, seconds: 11.4 },
+  { minAge: 70, maxAge: 79, seconds: 12.6 },
+  { minAge: 80, maxAge: 89, seconds: 14.8 }
+];
+
+// Whole years between an ISO date of birth and a timestamp
+export const getAge = (dateOfBirth: string, at: number): number => {
+  // Split rather than parse, since Date reads "YYYY-MM-DD" as UTC midnight
+  const [year, month, day] = dateOfBirth.split('-').map(Number);
+  const now = new Date(at);
+  const hadBirthday =
+    now.getMonth() + 1 > month || (now.getMonth() + 1 === month && now.getDate() >= day);
+  return now.getFullYear() - year - (hadBirthday ? 0 : 1);
+};
+
+const compareToNorm = (result: TestResult, age: number, sex: Sex | undefined): NormComparison | null => {
+  if (result.measure === 'chairStand30') {
+    const band = CHAIR_STAND_NORMS.find(norm => age >= norm.minAge && age <= norm.maxAge);
+    if (!band || !sex) return null;
+
+    const [low, high] = band[sex];
+    return {
+      ageBand: `${band.minAge}-${band.maxAge}`,
+      reference: `${low}-${high} stands`,
+      rating: result.value < low ? 'below' : result.value > high ? 'above' : 'within'
+    };
+  }
+
+  const band = FIVE_STS_NORMS.find(norm => age >= norm.minAge && age <= norm.maxAge);
+  if (!band) return null;
+
+  return {
+    ageBand: `${band.minAge}-${band.maxAge}`,
+    reference: `${band.seconds}s or faster`,
+    rating: result.value > band.seconds ? 'below' : 'within'
+  };
+};
+
+export const scoreOutcome = (
+  result: TestResult,
+  patient: { dateOfBirth?: string; sex?: Sex } | null,
+  at: number
+): OutcomeResult => ({
+  ...result,
+  norm: result.completed && patient?.dateOfBirth
+    ? compareToNorm(result, getAge(patient.dateOfBirth, at), patient.sex)
+    : null
+});
+
+export const formatOutcomeValue = (result: TestResult): string =>
+  OUTCOME_MEASURES[result.measure].unit === 'stands' ? `${result.value} stands` : `${result.value}s`;
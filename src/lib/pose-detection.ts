@@ -20,34 +20,82 @@ export interface ExerciseMetrics {
     knee: number;
     hip: number;
     shoulder: number;
+    ankle: number;
   };
   isInPosition: boolean;
+  // False while required landmarks are out of frame; scoring and rep counting pause
+  bodyInFrame: boolean;
 }
 
+// Assets are served from public/mediapipe (see scripts/sync-mediapipe-assets.mjs)
+// so detection keeps working on networks that block CDNs.
+const MEDIAPIPE_ASSET_BASE = `${import.meta.env.BASE_URL}mediapipe`;
+export const WASM_BASE_URL = `${MEDIAPIPE_ASSET_BASE}/wasm`;
+export const POSE_MODEL_VERSION = 1;
+
+export type PoseModelVariant = 'lite' | 'full' | 'heavy';
+
+export const getModelAssetPath = (variant: PoseModelVariant): string =>
+  `${MEDIAPIPE_ASSET_BASE}/models/v${POSE_MODEL_VERSION}/pose_landmarker_${variant}.task`;
+
+export class PoseAssetError extends Error {
+  constructor(message: string, readonly details?: unknown) {
+    super(message);
+    this.name = 'PoseAssetError';
+  }
+}
+
+// The dev server answers unknown paths with index.html, so a 200 alone is not enough
+const assertAssetAvailable = async (url: string): Promise<void> => {
+  const response = await fetch(url, { method: 'HEAD' }).catch(() => null);
+  const isHtml = response?.headers.get('content-type')?.includes('text/html');
+
+  if (!response?.ok || isHtml) {
+    throw new PoseAssetError(`Pose detection asset is missing: ${url}`);
+  }
+};
+
+// Shared by the main-thread and worker detectors
+export const loadPoseLandmarker = async (
+  variant: PoseModelVariant,
+  canvas?: HTMLCanvasElement | OffscreenCanvas
+): Promise<PoseLandmarker> => {
+  const modelAssetPath = getModelAssetPath(variant);
+  await assertAssetAvailable(`${WASM_BASE_URL}/vision_wasm_internal.wasm`);
+  await assertAssetAvailable(modelAssetPath);
+
+  try {
+    const vision = await FilesetResolver.forVisionTasks(WASM_BASE_URL);
+
+    return await PoseLandmarker.createFromOptions(vision, {
+      baseOptions: {
+        modelAssetPath,
+        delegate: "GPU"
+      },
+      canvas,
+      runningMode: "VIDEO",
+      numPoses: 1,
+      minPoseDetectionConfidence: 0.5,
+      minPosePresenceConfidence: 0.5,
+      minTrackingConfidence: 0.5
+    });
+  } catch (error) {
+    throw new PoseAssetError(`Failed to load the ${variant} pose model`, error);
+  }
+};
+
 export class PoseDetector {
   private poseLandmarker: PoseLandmarker | null = null;
   // Remove drawingUtils as we'll draw manually
   private isInitialized = false;
 
+  constructor(protected readonly modelVariant: PoseModelVariant = 'lite') {}
+
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
 
     try {
-      const vision = await FilesetResolver.forVisionTasks(
-        "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm"
-      );
-
-      this.poseLandmarker = await PoseLandmarker.createFromOptions(vision, {
-        baseOptions: {
-          modelAssetPath: "https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task",
-          delegate: "GPU"
-        },
-        runningMode: "VIDEO",
-        numPoses: 1,
-        minPoseDetectionConfidence: 0.5,
-        minPosePresenceConfidence: 0.5,
-        minTrackingConfidence: 0.5
-      });
+      this.poseLandmarker = await loadPoseLandmarker(this.modelVariant);
 
       // Initialize without drawingUtils
       this.isInitialized = true;
@@ -92,7 +140,8 @@ export class PoseDetector {
         const connections = [
           [11, 12], [11, 13], [13, 15], [12, 14], [14, 16], // Arms
           [11, 23], [12, 24], [23, 24], // Torso
-          [23, 25], [25, 27], [24, 26], [26, 28] // Legs
+          [23, 25], [25, 27], [24, 26], [26, 28], // Legs
+          [27, 29], [29, 31], [31, 27], [28, 30], [30, 32], [32, 28] // Feet
         ];
         
         for (const [startIdx, endIdx] of connections) {
@@ -144,6 +193,23 @@ export const calculateAngle = (
   return angle;
 };
 
+// Angle at point2 in full 3D, for metric world landmarks. Unlike the 2D version it is
+// not distorted when the limb is rotated towards or away from the camera.
+export const calculateAngle3D = (
+  point1: PoseLandmark,
+  point2: PoseLandmark,
+  point3: PoseLandmark
+): number => {
+  const a = { x: point1.x - point2.x, y: point1.y - point2.y, z: point1.z - point2.z };
+  const b = { x: point3.x - point2.x, y: point3.y - point2.y, z: point3.z - point2.z };
+  const magnitude = Math.hypot(a.x, a.y, a.z) * Math.hypot(b.x, b.y, b.z);
+
+  if (magnitude === 0) return 0;
+
+  const cosine = (a.x * b.x + a.y * b.y + a.z * b.z) / magnitude;
+  return Math.acos(Math.min(1, Math.max(-1, cosine))) * (180 / Math.PI);
+};
+
 export const getKeyLandmarks = (landmarks: PoseLandmark[]) => ({
   // Core landmarks for exercise analysis
   leftShoulder: landmarks[11],
@@ -158,6 +224,11 @@ export const getKeyLandmarks = (landmarks: PoseLandmark[]) => ({
   rightKnee: landmarks[26],
   leftAnkle: landmarks[27],
   rightAnkle: landmarks[28],
+  leftHeel: landmarks[29],
+  rightHeel: landmarks[30],
+  // MediaPipe's "foot index", the tip of the foot
+  leftToe: landmarks[31],
+  rightToe: landmarks[32],
   nose: landmarks[0],
   leftEye: landmarks[1],
   rightEye: landmarks[2]
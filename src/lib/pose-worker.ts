@@ -0,0 +1,54 @@
+import { PoseLandmarker } from '@mediapipe/tasks-vision';
+import { PoseModelVariant, loadPoseLandmarker } from './pose-detection';
+import type { PoseWorkerRequest, PoseWorkerResponse } from './worker-pose-detector';
+
+const ctx = self as unknown as Worker;
+let poseLandmarker: PoseLandmarker | null = null;
+
+const post = (message: PoseWorkerResponse) => ctx.postMessage(message);
+
+const initialize = async (variant: PoseModelVariant) => {
+  if (poseLandmarker) return;
+
+  // The GPU delegate needs a canvas to bind to; workers only have OffscreenCanvas
+  poseLandmarker = await loadPoseLandmarker(variant, new OffscreenCanvas(1, 1));
+};
+
+ctx.onmessage = async (event: MessageEvent<PoseWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init':
+      try {
+        await initialize(message.variant);
+        post({ type: 'ready' });
+      } catch (error) {
+        post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+      }
+      break;
+
+    case 'detect':
+      try {
+        const results = poseLandmarker!.detectForVideo(message.frame, message.timestamp);
+        post({
+          type: 'result',
+          id: message.id,
+          results: {
+            landmarks: results.landmarks || [],
+            worldLandmarks: results.worldLandmarks || []
+          }
+        });
+      } catch (error) {
+        console.error('Pose detection failed:', error);
+        post({ type: 'result', id: message.id, results: null });
+      } finally {
+        message.frame.close();
+      }
+      break;
+
+    case 'dispose':
+      poseLandmarker?.close();
+      poseLandmarker = null;
+      break;
+  }
+};
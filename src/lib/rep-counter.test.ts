@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { RepCounter, RepCounterOptions, RepEvent } from './rep-counter';
+
+const SQUAT: RepCounterOptions = {
+  direction: 'decreasing',
+  rest: 160,
+  target: 120,
+  hysteresis: 5,
+  minDwellMs: 150,
+  timeoutMs: 10000
+};
+
+// Feeds one value per 50ms frame and collects the events
+const run = (counter: RepCounter, values: number[], startAt = 0): RepEvent[] =>
+  values.flatMap((value, i) => counter.update(value, startAt + i * 50) ?? []);
+
+const hold = (value: number, frames: number) => Array<number>(frames).fill(value);
+
+describe('RepCounter', () => {
+  it('counts a full rep out to the target and back to rest', () => {
+    const counter = new RepCounter(SQUAT);
+    const events = run(counter, [...hold(170, 5), ...hold(150, 5), ...hold(100, 5), ...hold(140, 5), ...hold(170, 5)]);
+    expect(events).toEqual(['started', 'completed']);
+    expect(counter.getPhase()).toBe('rest');
+  });
+
+  it('abandons a movement that never reaches the target', () => {
+    const counter = new RepCounter(SQUAT);
+    const events = run(counter, [...hold(170, 5), ...hold(140, 5), ...hold(170, 5)]);
+    expect(events).toEqual(['started', 'abandoned']);
+  });
+
+  it('ignores jitter within the hysteresis band around rest', () => {
+    const counter = new RepCounter(SQUAT);
+    const events = run(counter, [...hold(170, 5), 158, 161, 157, 160, ...hold(170, 5)]);
+    expect(events).toEqual([]);
+  });
+
+  it('waits out the minimum dwell before changing phase', () => {
+    const counter = new RepCounter(SQUAT);
+    expect(counter.update(170, 0)).toBeNull();
+    expect(counter.update(100, 100)).toBeNull();
+    expect(counter.update(100, 150)).toBe('started');
+  });
+
+  it('discards a rep that times out and needs a clean return to rest', () => {
+    const counter = new RepCounter({ ...SQUAT, timeoutMs: 1000 });
+    const events = run(counter, [...hold(170, 5), ...hold(100, 40), ...hold(140, 5), ...hold(170, 5), ...hold(100, 5), ...hold(170, 5)]);
+    expect(events).toEqual(['started', 'abandoned', 'started', 'completed']);
+  });
+
+  it('counts increasing movements such as a shoulder raise', () => {
+    const counter = new RepCounter({ ...SQUAT, direction: 'increasing', rest: 30, target: 75 });
+    const events = run(counter, [...hold(10, 5), ...hold(50, 5), ...hold(90, 5), ...hold(10, 5)]);
+    expect(events).toEqual(['started', 'completed']);
+  });
+
+  it('starts over after reset', () => {
+    const counter = new RepCounter(SQUAT);
+    run(counter, [...hold(170, 5), ...hold(100, 5)]);
+    expect(counter.getPhase()).toBe('peak');
+    counter.reset();
+    expect(counter.getPhase()).toBe('rest');
+  });
+});
@@ -0,0 +1,115 @@
+// Phases of a single repetition. "peak" is the far end of the movement:
+// the bottom of a squat, or the top of a shoulder raise.
+export type RepPhase = 'rest' | 'outbound' | 'peak' | 'returning';
+
+export type RepEvent = 'started' | 'completed' | 'abandoned';
+
+export interface RepCounterOptions {
+  // Whether the tracked value falls (knee angle in a squat) or rises (shoulder angle) during a rep
+  direction: 'decreasing' | 'increasing';
+  // Value at or beyond which the patient is back at the starting position
+  rest: number;
+  // Value that must be reached for the movement to count as a rep
+  target: number;
+  // Band the value must move past a boundary by before leaving a phase, to absorb landmark jitter
+  hysteresis: number;
+  // Minimum time spent in a phase before it can be left
+  minDwellMs: number;
+  // Reps that take longer than this from leaving rest are discarded
+  timeoutMs: number;
+}
+
+export class RepCounter {
+  private phase: RepPhase = 'rest';
+  private phaseEnteredAt: number | null = null;
+  private repStartedAt: number | null = null;
+  private awaitingRest = false;
+
+  constructor(private readonly options: RepCounterOptions) {}
+
+  getPhase(): RepPhase {
+    return this.phase;
+  }
+
+  update(value: number, timestamp: number = Date.now()): RepEvent | null {
+    const { direction, hysteresis, minDwellMs, timeoutMs } = this.options;
+
+    // Work in "depth into the rep" terms so both directions share one set of rules
+    const sign = direction === 'decreasing' ? -1 : 1;
+    const depth = value * sign;
+    const rest = this.options.rest * sign;
+    const target = this.options.target * sign;
+
+    if (this.phaseEnteredAt === null) {
+      this.phaseEnteredAt = timestamp;
+    }
+
+    // After an abandoned rep, wait for a clean return to rest before counting again
+    if (this.awaitingRest) {
+      if (depth <= rest) {
+        this.awaitingRest = false;
+        this.enter('rest', timestamp);
+      }
+      return null;
+    }
+
+    if (this.repStartedAt !== null && timestamp - this.repStartedAt > timeoutMs) {
+      this.repStartedAt = null;
+      this.awaitingRest = true;
+      this.enter('rest', timestamp);
+      return 'abandoned';
+    }
+
+    if (timestamp - this.phaseEnteredAt < minDwellMs) {
+      return null;
+    }
+
+    switch (this.phase) {
+      case 'rest':
+        if (depth > rest + hysteresis) {
+          this.repStartedAt = timestamp;
+          this.enter('outbound', timestamp);
+          return 'started';
+        }
+        break;
+      case 'outbound':
+        if (depth >= target) {
+          this.enter('peak', timestamp);
+        } else if (depth <= rest) {
+          // Partial movement that never reached the target
+          this.repStartedAt = null;
+          this.enter('rest', timestamp);
+          return 'abandoned';
+        }
+        break;
+      case 'peak':
+        if (depth < target - hysteresis) {
+          this.enter('returning', timestamp);
+        }
+        break;
+      case 'returning':
+        if (depth >= target) {
+          this.enter('peak', timestamp);
+        } else if (depth <= rest) {
+          this.repStartedAt = null;
+          this.enter('rest', timestamp);
+          return 'completed';
+        }
+        break;
+    }
+
+    return null;
+  }
+
+  reset(): void {
+    this.phase = 'rest';
+    this.phaseEnteredAt = null;
+    this.repStartedAt = null;
+    this.awaitingRest = false;
+  }
+
+  private enter(phase: RepPhase, timestamp: number): void {
+    this.phase = phase;
+    this.phaseEnteredAt = timestamp;
+  }
+}
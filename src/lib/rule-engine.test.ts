@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { pose } from '@/test/poses';
+import { ExerciseDefinition, parseExerciseDefinition } from './exercise-definition';
+import { computeMeasurements, evaluateCondition, formatMessage, resolvePoints } from './rule-engine';
+
+const base = {
+  id: 'test',
+  name: 'Test',
+  targetReps: 5,
+  thresholds: { limit: 90 },
+  angles: {},
+  visibility: { required: ['leftHip'] },
+  inPosition: { left: 'knee', op: '<', right: 'limit' },
+  hold: { target: { left: 'knee', op: '<', right: 'limit' }, targetSeconds: 10 },
+  feedback: [],
+  scoring: [{ type: 'extreme', id: 'knee', label: 'Knee', measurement: 'knee', extreme: 'min', ideal: 90, worst: 120, weight: 1 }]
+};
+
+const define = (overrides: Record<string, unknown>): ExerciseDefinition =>
+  parseExerciseDefinition({
+    ...base,
+    measurements: { knee: { type: 'angle', points: ['leftHip', 'leftKnee', 'leftAnkle'] } },
+    ...overrides
+  });
+
+describe('computeMeasurements', () => {
+  const definition = define({
+    points: { hipMid: { midpoint: ['leftHip', 'rightHip'] } },
+    measurements: {
+      knee: { type: 'angle', points: ['leftHip', 'leftKnee', 'leftAnkle'] },
+      otherKnee: { type: 'angle', points: ['rightHip', 'rightKnee', 'rightAnkle'] },
+      deepest: { type: 'min', of: ['knee', 'otherKnee'] },
+      average: { type: 'mean', of: ['knee', 'otherKnee'] },
+      gap: { type: 'difference', of: ['knee', 'otherKnee'] },
+      hipHeight: { type: 'offset', from: 'hipMid', to: 'leftShoulder', axis: 'y' },
+      bent: { type: 'choose', if: { left: 'deepest', op: '<', right: 'limit' }, then: 1, else: 0 }
+    }
+  });
+
+  it('computes measurements in declaration order', () => {
+    const values = computeMeasurements(definition, pose({ leftKnee: 90, rightKnee: 120 }), { limit: 90 });
+    expect(values.knee).toBeCloseTo(90);
+    expect(values.otherKnee).toBeCloseTo(120);
+    expect(values.deepest).toBeCloseTo(90);
+    expect(values.average).toBeCloseTo(105);
+    expect(values.gap).toBeCloseTo(30);
+    expect(values.hipHeight).toBeCloseTo(-0.25);
+    expect(values.bent).toBe(0);
+  });
+
+  it('leaves out a choice with no else when its condition fails', () => {
+    const lead = define({
+      measurements: {
+        knee: { type: 'angle', points: ['leftHip', 'leftKnee', 'leftAnkle'] },
+        leadKnee: { type: 'choose', if: { left: 'knee', op: '<', right: 'limit' }, then: 'knee' }
+      }
+    });
+    expect(computeMeasurements(lead, pose({ leftKnee: 80 }), { limit: 90 }).leadKnee).toBeCloseTo(80);
+    expect(computeMeasurements(lead, pose({ leftKnee: 170 }), { limit: 90 })).not.toHaveProperty('leadKnee');
+  });
+
+  it('uses world landmarks for angles when they are available', () => {
+    const world = pose({ leftKnee: 100 });
+    const values = computeMeasurements(definition, pose({ leftKnee: 150 }), { limit: 90 }, world);
+    expect(values.knee).toBeCloseTo(100);
+  });
+
+  it('gives midpoints the visibility of their least visible member', () => {
+    const landmarks = pose();
+    landmarks[24] = { ...landmarks[24], visibility: 0.3 };
+    expect(resolvePoints(definition, landmarks).hipMid.visibility).toBe(0.3);
+  });
+});
+
+describe('evaluateCondition', () => {
+  const values = { knee: 80, hip: 150 };
+  const thresholds = { limit: 90 };
+
+  it('combines comparisons with all, any and not', () => {
+    expect(evaluateCondition({ left: 'knee', op: '<', right: 'limit' }, values, thresholds)).toBe(true);
+    expect(evaluateCondition({ all: [{ left: 'knee', op: '<', right: 'limit' }, { left: 'hip', op: '<', right: 90 }] }, values, thresholds)).toBe(false);
+    expect(evaluateCondition({ any: [{ left: 'knee', op: '<', right: 'limit' }, { left: 'hip', op: '<', right: 90 }] }, values, thresholds)).toBe(true);
+    expect(evaluateCondition({ not: { left: 'knee', op: '>=', right: 'limit' } }, values, thresholds)).toBe(true);
+  });
+
+  it('throws on unknown names', () => {
+    expect(() => evaluateCondition({ left: 'ankle', op: '<', right: 'limit' }, values, thresholds)).toThrow('ankle');
+  });
+});
+
+describe('formatMessage', () => {
+  it('fills in rounded measurements and thresholds', () => {
+    expect(formatMessage('At {knee} of {limit} degrees', { knee: 80.4 }, { limit: 90 })).toBe('At 80 of 90 degrees');
+  });
+});
+
+describe('parseExerciseDefinition', () => {
+  it('rejects midpoints of unknown points', () => {
+    expect(() => define({ points: { hipMid: { midpoint: ['leftHip', 'rigthHip'] } } })).toThrow('rigthHip');
+  });
+
+  it('rejects measurements of unknown points', () => {
+    expect(() => define({ measurements: { knee: { type: 'angle', points: ['leftHip', 'leftKnee', 'leftAnkel'] } } }))
+      .toThrow('leftAnkel');
+  });
+
+  it('defaults rep pace thresholds for exercises that score duration', () => {
+    const duration = { type: 'duration', id: 'tempo', label: 'Tempo', ideal: 'repSeconds', worst: 'rushedRepSeconds', weight: 1 };
+    expect(define({ scoring: [...base.scoring, duration] }).thresholds).toEqual({ limit: 90, repSeconds: 3, rushedRepSeconds: 1.5 });
+    expect(define({ scoring: [duration], thresholds: { repSeconds: 2 } }).thresholds.repSeconds).toBe(2);
+    expect(define({}).thresholds).toEqual({ limit: 90 });
+  });
+
+  it('requires exactly one of reps, hold or balance', () => {
+    expect(() => define({ hold: undefined })).toThrow('exactly one');
+  });
+});
@@ -0,0 +1,143 @@
+import { PoseLandmark, calculateAngle, calculateAngle3D, getKeyLandmarks } from './pose-detection';
+import { Condition, ExerciseDefinition } from './exercise-definition';
+
+export type MeasurementValues = Record<string, number>;
+
+export const resolveOperand = (
+  operand: number | string,
+  values: MeasurementValues,
+  thresholds: Record<string, number>
+): number => {
+  if (typeof operand === 'number') return operand;
+  if (operand in values) return values[operand];
+  if (operand in thresholds) return thresholds[operand];
+  throw new Error(`Unknown measurement or threshold "${operand}"`);
+};
+
+// Key landmarks plus the definition's derived points, such as midpoints. A derived
+// point is only as visible as its least visible member.
+export const resolvePoints = (
+  definition: ExerciseDefinition,
+  landmarks: PoseLandmark[]
+): Record<string, PoseLandmark> => {
+  const points: Record<string, PoseLandmark> = { ...getKeyLandmarks(landmarks) };
+
+  for (const [name, point] of Object.entries(definition.points)) {
+    const members = point.midpoint.map(member => points[member]);
+    const visibilities = members.map(p => p.visibility).filter((v): v is number => v !== undefined);
+    points[name] = {
+      x: members.reduce((sum, p) => sum + p.x, 0) / members.length,
+      y: members.reduce((sum, p) => sum + p.y, 0) / members.length,
+      z: members.reduce((sum, p) => sum + p.z, 0) / members.length,
+      ...(visibilities.length > 0 && { visibility: Math.min(...visibilities) })
+    };
+  }
+
+  return points;
+};
+
+// Names of required key landmarks that are missing, poorly tracked or outside the image
+export const findMissingLandmarks = (
+  landmarks: PoseLandmark[],
+  required: string[],
+  minVisibility: number
+): string[] => {
+  const keyLandmarks: Record<string, PoseLandmark | undefined> = getKeyLandmarks(landmarks);
+
+  return required.filter(name => {
+    const landmark = keyLandmarks[name];
+    if (!landmark) return true;
+
+    const inImage = landmark.x >= 0 && landmark.x <= 1 && landmark.y >= 0 && landmark.y <= 1;
+    return !inImage || (landmark.visibility ?? 1) < minVisibility;
+  });
+};
+
+// Measurements are computed in declaration order, so later ones can build on earlier ones
+export const computeMeasurements = (
+  definition: ExerciseDefinition,
+  landmarks: PoseLandmark[],
+  thresholds: Record<string, number>,
+  worldLandmarks?: PoseLandmark[]
+): MeasurementValues => {
+  const points = resolvePoints(definition, landmarks);
+  const worldPoints = worldLandmarks?.length ? resolvePoints(definition, worldLandmarks) : null;
+  const values: MeasurementValues = {};
+  const operand = (name: number | string) => resolveOperand(name, values, thresholds);
+
+  for (const [name, measurement] of Object.entries(definition.measurements)) {
+    switch (measurement.type) {
+      case 'angle': {
+        const use3D = worldPoints !== null && measurement.space !== '2d';
+        const [a, b, c] = measurement.points.map((point: string) => (use3D ? worldPoints : points)[point]);
+        values[name] = use3D ? calculateAngle3D(a, b, c) : calculateAngle(a, b, c);
+        break;
+      }
+      case 'offset': {
+        const offset = points[measurement.to][measurement.axis] - points[measurement.from][measurement.axis];
+        values[name] = measurement.abs ? Math.abs(offset) : offset;
+        break;
+      }
+      case 'min':
+        values[name] = Math.min(...measurement.of.map(operand));
+        break;
+      case 'max':
+        values[name] = Math.max(...measurement.of.map(operand));
+        break;
+      case 'mean':
+        values[name] = measurement.of.map(operand).reduce((sum, v) => sum + v, 0) / measurement.of.length;
+        break;
+      case 'difference':
+        values[name] = Math.abs(operand(measurement.of[0]) - operand(measurement.of[1]));
+        break;
+      case 'choose': {
+        const chosen = evaluateCondition(measurement.if, values, thresholds) ? measurement.then : measurement.else;
+        if (chosen !== undefined) values[name] = operand(chosen);
+        break;
+      }
+    }
+  }
+
+  return values;
+};
+
+export const compare = (left: number, op: '<' | '<=' | '>' | '>=', right: number): boolean => {
+  switch (op) {
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    case '>=': return left >= right;
+  }
+};
+
+export const evaluateCondition = (
+  condition: Condition,
+  values: MeasurementValues,
+  thresholds: Record<string, number>
+): boolean => {
+  if ('all' in condition) {
+    return condition.all.every(c => evaluateCondition(c, values, thresholds));
+  }
+  if ('any' in condition) {
+    return condition.any.some(c => evaluateCondition(c, values, thresholds));
+  }
+  if ('not' in condition) {
+    return !evaluateCondition(condition.not, values, thresholds);
+  }
+
+  return compare(
+    resolveOperand(condition.left, values, thresholds),
+    condition.op,
+    resolveOperand(condition.right, values, thresholds)
+  );
+};
+
+// Replaces `{name}` placeholders with rounded measurement or threshold values
+export const formatMessage = (
+  message: string,
+  values: MeasurementValues,
+  thresholds: Record<string, number>
+): string =>
+  message.replace(/\{(\w+)\}/g, (_, name: string) =>
+    String(Math.round(resolveOperand(name, values, thresholds)))
+  );
@@ -0,0 +1,177 @@
+import { ExerciseConfig, PrescribedExercise, RepData, ScorePoint, SetSummary } from './exercise-rules';
+import { TempoStats } from './tempo';
+import { HoldStats } from './hold';
+import { SideStats } from './sides';
+import { OutcomeResult, Sex } from './outcomes';
+import { BalanceResult } from './balance';
+
+const DB_NAME = 'rehabright';
+const SESSIONS_STORE = 'sessions';
+const PATIENTS_STORE = 'patients';
+const NOTES_STORE = 'notes';
+const PRESCRIPTIONS_STORE = 'prescriptions';
+
+type StoreName = typeof SESSIONS_STORE | typeof PATIENTS_STORE | typeof NOTES_STORE | typeof PRESCRIPTIONS_STORE;
+
+export interface SessionRecord {
+  id: string;
+  // Absent for sessions recorded without a patient selected
+  patientId?: string;
+  exercise: string;
+  exerciseName: string;
+  // The exact config used, so later threshold changes don't rewrite history
+  config: ExerciseConfig;
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  repCount: number;
+  avgScore: number;
+  reps: RepData[];
+  scoreTimeline: ScorePoint[];
+  // Absent on sessions saved before set tracking
+  sets?: SetSummary[];
+  // Absent on sessions saved before tempo tracking, null if no rep was timed
+  tempo?: TempoStats | null;
+  // Null or absent for repetition exercises
+  hold?: HoldStats | null;
+  // Null or absent for exercises that don't track sides
+  sides?: SideStats | null;
+  // Null or absent unless the session was a timed outcome test
+  outcome?: OutcomeResult | null;
+  // Null or absent unless the session was a balance test
+  balance?: BalanceResult | null;
+  flags: string[];
+}
+
+export interface Patient {
+  id: string;
+  name: string;
+  dateOfBirth?: string;
+  // Used to pick sex-specific outcome norms
+  sex?: Sex;
+  condition?: string;
+  createdAt: number;
+}
+
+export interface SessionNote {
+  id: string;
+  sessionId: string;
+  text: string;
+  createdAt: number;
+}
+
+// A patient's current program, in the order they should perform it
+export interface Prescription {
+  patientId: string;
+  exercises: PrescribedExercise[];
+  updatedAt: number;
+}
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+// Index N upgrades the database from version N to N + 1. Only ever append.
+const MIGRATIONS: Migration[] = [
+  (db) => {
+    const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+    sessions.createIndex('exercise', 'exercise');
+    sessions.createIndex('startedAt', 'startedAt');
+  },
+  (db) => {
+    db.createObjectStore(PATIENTS_STORE, { keyPath: 'id' });
+    const notes = db.createObjectStore(NOTES_STORE, { keyPath: 'id' });
+    notes.createIndex('sessionId', 'sessionId');
+  },
+  (db) => {
+    db.createObjectStore(PRESCRIPTIONS_STORE, { keyPath: 'patientId' });
+  }
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openSessionDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const transaction = request.transaction!;
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          MIGRATIONS[version](request.result, transaction);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openSessionDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const saveSession = async (session: SessionRecord): Promise<void> => {
+  await runRequest(SESSIONS_STORE, 'readwrite', store => store.put(session));
+};
+
+export const getSession = (id: string): Promise<SessionRecord | undefined> =>
+  runRequest(SESSIONS_STORE, 'readonly', store => store.get(id));
+
+// Newest first
+export const listSessions = async (): Promise<SessionRecord[]> => {
+  const sessions = await runRequest<SessionRecord[]>(SESSIONS_STORE, 'readonly', store => store.index('startedAt').getAll());
+  return sessions.reverse();
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await runRequest(SESSIONS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const savePatient = async (patient: Patient): Promise<void> => {
+  await runRequest(PATIENTS_STORE, 'readwrite', store => store.put(patient));
+};
+
+// Alphabetical by name
+export const listPatients = async (): Promise<Patient[]> => {
+  const patients = await runRequest<Patient[]>(PATIENTS_STORE, 'readonly', store => store.getAll());
+  return patients.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveNote = async (note: SessionNote): Promise<void> => {
+  await runRequest(NOTES_STORE, 'readwrite', store => store.put(note));
+};
+
+// Oldest first, so notes read as a conversation
+export const listSessionNotes = async (sessionId: string): Promise<SessionNote[]> => {
+  const notes = await runRequest<SessionNote[]>(NOTES_STORE, 'readonly', store => store.index('sessionId').getAll(sessionId));
+  return notes.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const deleteNote = async (id: string): Promise<void> => {
+  await runRequest(NOTES_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const getPrescription = (patientId: string): Promise<Prescription | undefined> =>
+  runRequest(PRESCRIPTIONS_STORE, 'readonly', store => store.get(patientId));
+
+export const savePrescription = async (prescription: Prescription): Promise<void> => {
+  await runRequest(PRESCRIPTIONS_STORE, 'readwrite', store => store.put(prescription));
+};
@@ -0,0 +1,94 @@
+export interface SessionRecording {
+  blob: Blob;
+  // Epoch milliseconds, the same clock as RepData.timestamp
+  startedAt: number;
+  stoppedAt: number;
+}
+
+const PREFERRED_MIME_TYPES = [
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=vp8',
+  'video/webm',
+  'video/mp4'
+];
+
+export const getSupportedMimeType = (): string | undefined =>
+  PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+export class SessionRecorder {
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private startedAt: number | null = null;
+
+  static isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined';
+  }
+
+  get isRecording(): boolean {
+    return this.recorder?.state === 'recording';
+  }
+
+  start(stream: MediaStream): number {
+    if (this.recorder) {
+      throw new Error('Recording already in progress');
+    }
+
+    this.chunks = [];
+    this.recorder = new MediaRecorder(stream, { mimeType: getSupportedMimeType() });
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+
+    // Emit data every second so a stream that ends abruptly still leaves a usable file
+    this.recorder.start(1000);
+    this.startedAt = Date.now();
+    return this.startedAt;
+  }
+
+  stop(): Promise<SessionRecording> {
+    const recorder = this.recorder;
+    if (!recorder || this.startedAt === null) {
+      return Promise.reject(new Error('No recording in progress'));
+    }
+
+    const startedAt = this.startedAt;
+
+    return new Promise((resolve, reject) => {
+      const finish = () => {
+        const stoppedAt = Date.now();
+        const blob = new Blob(this.chunks, { type: recorder.mimeType || 'video/webm' });
+        this.reset();
+        resolve({ blob, startedAt, stoppedAt });
+      };
+
+      recorder.onerror = (event) => {
+        this.reset();
+        reject(event instanceof ErrorEvent ? event.error : new Error('Recording failed'));
+      };
+
+      if (recorder.state === 'inactive') {
+        finish();
+      } else {
+        recorder.onstop = finish;
+        recorder.stop();
+      }
+    });
+  }
+
+  private reset(): void {
+    this.recorder = null;
+    this.chunks = [];
+    this.startedAt = null;
+  }
+}
+
+export const downloadRecording = (blob: Blob, baseName: string): void => {
+  const extension = blob.type.includes('mp4') ? 'mp4' : 'webm';
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}.${extension}`;
+  link.click();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { EXERCISE_CONFIGS, RepData } from './exercise-rules';
+import { SessionRecord } from './session-db';
+import { summarizeSession } from './session-stats';
+
+const rep = (knee: number, flags: string[] = []) =>
+  ({ angles: { knee, hip: 0, shoulder: 0, ankle: 0 }, flags }) as RepData;
+
+const session = (exercise: string, reps: RepData[]) =>
+  ({
+    id: 's1',
+    exercise,
+    exerciseName: exercise,
+    config: EXERCISE_CONFIGS[exercise],
+    startedAt: 0,
+    endedAt: 0,
+    durationMs: 0,
+    repCount: reps.length,
+    avgScore: 80,
+    reps,
+    scoreTimeline: []
+  }) as SessionRecord;
+
+describe('summarizeSession', () => {
+  it('takes the deepest knee bend for squats', () => {
+    const summary = summarizeSession(session('squat', [rep(95), rep(82, ['shallow_squat']), rep(88)]));
+    expect(summary.peakKnee).toBe(82);
+    expect(summary.peakShoulder).toBeNull();
+    expect(summary.flagCounts).toEqual({ shallow_squat: 1 });
+  });
+
+  it('takes the straightest knee for exercises that peak standing', () => {
+    expect(summarizeSession(session('chairStand30', [rep(165), rep(172), rep(0)])).peakKnee).toBe(172);
+  });
+});
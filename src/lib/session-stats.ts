@@ -0,0 +1,54 @@
+import { SessionRecord } from './session-db';
+import { EXERCISE_DEFINITIONS } from './exercises';
+
+export interface SessionSummary {
+  id: string;
+  exercise: string;
+  startedAt: number;
+  label: string;
+  reps: number;
+  avgScore: number;
+  // Furthest knee and shoulder angles across the session's reps, in the direction the
+  // exercise declares as its peak; null if not measured
+  peakKnee: number | null;
+  peakShoulder: number | null;
+  flagCounts: Record<string, number>;
+}
+
+const peakOf = (session: SessionRecord, angle: 'knee' | 'shoulder'): number | null => {
+  const display = EXERCISE_DEFINITIONS[session.exercise]?.angles[angle];
+  const measured = session.reps.map(rep => rep.angles[angle]).filter(value => value > 0);
+  if (!display || measured.length === 0) return null;
+  return Math.round(display.peak === 'min' ? Math.min(...measured) : Math.max(...measured));
+};
+
+export const summarizeSession = (session: SessionRecord): SessionSummary => {
+  const flagCounts: Record<string, number> = {};
+  for (const rep of session.reps) {
+    for (const flag of rep.flags) {
+      flagCounts[flag] = (flagCounts[flag] ?? 0) + 1;
+    }
+  }
+
+  return {
+    id: session.id,
+    exercise: session.exercise,
+    startedAt: session.startedAt,
+    label: new Date(session.startedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+    reps: session.repCount,
+    avgScore: session.avgScore,
+    peakKnee: peakOf(session, 'knee'),
+    peakShoulder: peakOf(session, 'shoulder'),
+    flagCounts
+  };
+};
+
+export const formatFlag = (flag: string): string =>
+  flag.replace(/_/g, ' ').replace(/^\w/, letter => letter.toUpperCase());
+
+export const formatDuration = (durationMs: number): string => {
+  const totalSeconds = Math.round(durationMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
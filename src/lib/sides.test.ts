@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { appliesToSide, otherSide, summarizeSides } from './sides';
+
+describe('summarizeSides', () => {
+  it('compares the average ROM of each side', () => {
+    const stats = summarizeSides([
+      { side: 'left', rom: { left: 80 } },
+      { side: 'right', rom: { right: 100 } },
+      { side: null, rom: { left: 90, right: 100 } }
+    ]);
+    expect(stats).toEqual({
+      left: { repCount: 1, avgRom: 85 },
+      right: { repCount: 1, avgRom: 100 },
+      limbSymmetryIndex: 85,
+      weakerSide: 'left'
+    });
+  });
+
+  it('has no symmetry index for single-side sessions', () => {
+    const stats = summarizeSides([{ side: 'left', rom: { left: 80 } }]);
+    expect(stats.limbSymmetryIndex).toBeNull();
+    expect(stats.weakerSide).toBeNull();
+  });
+
+  it('is null for exercises without sides', () => {
+    expect(summarizeSides([{ side: null, rom: null }])).toBeNull();
+  });
+});
+
+describe('otherSide', () => {
+  it('swaps sides', () => {
+    expect(otherSide('left')).toBe('right');
+    expect(otherSide('right')).toBe('left');
+  });
+});
+
+describe('appliesToSide', () => {
+  it('limits checks to the listed settings', () => {
+    expect(appliesToSide(['bilateral'], 'bilateral')).toBe(true);
+    expect(appliesToSide(['bilateral'], 'left')).toBe(false);
+    expect(appliesToSide(undefined, 'alternating')).toBe(true);
+  });
+});
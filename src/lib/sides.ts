@@ -0,0 +1,62 @@
+export type Side = 'left' | 'right';
+
+// How a prescription asks for an exercise to be done
+export type SideSetting = 'bilateral' | Side | 'alternating';
+
+export const SIDE_SETTINGS: Array<{ value: SideSetting; label: string }> = [
+  { value: 'bilateral', label: 'Both sides' },
+  { value: 'left', label: 'Left only' },
+  { value: 'right', label: 'Right only' },
+  { value: 'alternating', label: 'Alternating' }
+];
+
+// Degrees moved on each side during one rep; a side is absent if it wasn't working
+export type SideRom = Partial<Record<Side, number>>;
+
+export interface SideTotals {
+  repCount: number;
+  // Mean ROM over the reps that moved this side, 0 if none did
+  avgRom: number;
+}
+
+export interface SideStats extends Record<Side, SideTotals> {
+  // Lower side's mean ROM as a percentage of the higher side's; 100 is symmetric
+  limbSymmetryIndex: number | null;
+  weakerSide: Side | null;
+}
+
+export const formatSideSetting = (setting: SideSetting): string =>
+  SIDE_SETTINGS.find(option => option.value === setting)?.label ?? setting;
+
+export const otherSide = (side: Side): Side => (side === 'left' ? 'right' : 'left');
+
+// Whether a check limited to some side settings applies in this one
+export const appliesToSide = (settings: SideSetting[] | undefined, setting: SideSetting): boolean =>
+  !settings || settings.includes(setting);
+
+const totalsFor = (side: Side, reps: Array<{ side: Side | null; rom: SideRom | null }>): SideTotals => {
+  const roms = reps.flatMap(rep => (rep.rom?.[side] !== undefined ? [rep.rom[side]] : []));
+  return {
+    repCount: reps.filter(rep => rep.side === side).length,
+    avgRom: roms.length > 0 ? Math.round(roms.reduce((sum, rom) => sum + rom, 0) / roms.length) : 0
+  };
+};
+
+// Rep counts only include single-side reps; ROM also draws on both-sides reps
+export const summarizeSides = (reps: Array<{ side: Side | null; rom: SideRom | null }>): SideStats | null => {
+  if (!reps.some(rep => rep.rom)) return null;
+
+  const left = totalsFor('left', reps);
+  const right = totalsFor('right', reps);
+  // Needs both sides, so a left-only session has no index
+  if (left.avgRom === 0 || right.avgRom === 0) {
+    return { left, right, limbSymmetryIndex: null, weakerSide: null };
+  }
+
+  return {
+    left,
+    right,
+    limbSymmetryIndex: Math.round((Math.min(left.avgRom, right.avgRom) / Math.max(left.avgRom, right.avgRom)) * 100),
+    weakerSide: left.avgRom === right.avgRom ? null : left.avgRom < right.avgRom ? 'left' : 'right'
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { TempoTracker, formatTempo, parseTempo, summarizeTempo } from './tempo';
+
+describe('parseTempo', () => {
+  it('reads eccentric-pause-concentric seconds', () => {
+    expect(parseTempo(' 3-1-2 ')).toEqual({ eccentric: 3, pause: 1, concentric: 2 });
+    expect(formatTempo({ eccentric: 3, pause: 1, concentric: 2 })).toBe('3-1-2');
+  });
+
+  it('rejects partial or negative input', () => {
+    expect(parseTempo('3-')).toBeNull();
+    expect(parseTempo('3-1')).toBeNull();
+    expect(parseTempo('3--1-1')).toBeNull();
+    expect(parseTempo('a-1-1')).toBeNull();
+  });
+});
+
+describe('TempoTracker', () => {
+  // Squat knee angle: down over 2s, 1s at the bottom, up over 1s
+  const squat = (t: number) =>
+    t <= 2000 ? 170 - (t / 2000) * 80 : t <= 3000 ? 90 : 90 + ((t - 3000) / 1000) * 80;
+
+  it('splits a lowering movement into eccentric, pause and concentric', () => {
+    const tracker = new TempoTracker('decreasing', 5);
+    tracker.start(0);
+    let leftAt: number | null = null;
+    for (let t = 0; t <= 4000; t += 50) {
+      if (tracker.update(squat(t), t) && leftAt === null) leftAt = t;
+    }
+    expect(leftAt).toBeGreaterThan(3000);
+    expect(tracker.measure(4000, 'eccentric')).toEqual({
+      eccentric: 1.9,
+      pause: 1.2,
+      concentric: 1,
+      timeUnderTension: 4
+    });
+  });
+
+  it('treats the way out as concentric for lifts', () => {
+    const tracker = new TempoTracker('increasing', 5);
+    tracker.start(0);
+    for (let t = 0; t <= 4000; t += 50) tracker.update(260 - squat(t), t);
+    const tempo = tracker.measure(4000, 'concentric');
+    expect(tempo.concentric).toBe(1.9);
+    expect(tempo.eccentric).toBe(1);
+  });
+
+  it('measures nothing before a rep starts', () => {
+    const tracker = new TempoTracker('decreasing', 5);
+    expect(tracker.update(100, 0)).toBe(false);
+    expect(tracker.measure(0, 'eccentric')).toBeNull();
+  });
+});
+
+describe('summarizeTempo', () => {
+  it('averages phases and totals time under tension', () => {
+    const stats = summarizeTempo([
+      { eccentric: 2, pause: 1, concentric: 1, timeUnderTension: 4 },
+      { eccentric: 3, pause: 0, concentric: 1, timeUnderTension: 4 }
+    ]);
+    expect(stats).toEqual({ repCount: 2, eccentric: 2.5, pause: 0.5, concentric: 1, timeUnderTension: 8 });
+    expect(summarizeTempo([])).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+// Seconds per phase, written eccentric-pause-concentric as in "3-1-1"
+export interface TempoTarget {
+  eccentric: number;
+  pause: number;
+  concentric: number;
+}
+
+export interface RepTempo extends TempoTarget {
+  timeUnderTension: number;
+}
+
+export interface TempoStats extends RepTempo {
+  // Averages per rep, except timeUnderTension which is the session total
+  repCount: number;
+}
+
+export const formatTempo = (tempo: TempoTarget): string =>
+  [tempo.eccentric, tempo.pause, tempo.concentric].join('-');
+
+export const parseTempo = (text: string): TempoTarget | null => {
+  const parts = text.trim().split('-').map(Number);
+  if (parts.length !== 3 || parts.some(part => !Number.isFinite(part) || part < 0)) return null;
+  const [eccentric, pause, concentric] = parts;
+  return { eccentric, pause, concentric };
+};
+
+const round = (seconds: number) => Math.round(seconds * 10) / 10;
+
+// Splits one rep into the way out, the pause at the far end and the way back.
+// The pause is the stretch spent within `pauseBand` of the rep's extreme value.
+export class TempoTracker {
+  private startedAt: number | null = null;
+  private samples: Array<{ timestamp: number; depth: number }> = [];
+  private extreme = -Infinity;
+  private hasLeftPeak = false;
+
+  constructor(
+    private readonly direction: 'decreasing' | 'increasing',
+    private readonly pauseBand: number
+  ) {}
+
+  start(timestamp: number): void {
+    this.reset();
+    this.startedAt = timestamp;
+  }
+
+  // Returns true on the frame the movement clearly leaves the far end
+  update(value: number, timestamp: number): boolean {
+    if (this.startedAt === null) return false;
+
+    // Work in "depth into the rep" terms, as RepCounter does
+    const depth = this.direction === 'decreasing' ? -value : value;
+    this.samples.push({ timestamp, depth });
+    this.extreme = Math.max(this.extreme, depth);
+
+    const atPeak = depth >= this.extreme - this.pauseBand;
+    const leftNow = !atPeak && !this.hasLeftPeak;
+    this.hasLeftPeak = !atPeak;
+    return leftNow;
+  }
+
+  // Phase durations so far; the outbound phase is eccentric for a squat but concentric for a raise
+  measure(timestamp: number, outbound: 'eccentric' | 'concentric'): RepTempo | null {
+    const { startedAt } = this;
+    if (startedAt === null) return null;
+
+    const atPeak = this.samples.filter(sample => sample.depth >= this.extreme - this.pauseBand);
+    const reachedPeakAt = atPeak[0]?.timestamp ?? timestamp;
+    const leftPeakAt = this.hasLeftPeak ? atPeak[atPeak.length - 1]?.timestamp ?? timestamp : timestamp;
+
+    const out = (reachedPeakAt - startedAt) / 1000;
+    const pause = (leftPeakAt - reachedPeakAt) / 1000;
+    const back = (timestamp - leftPeakAt) / 1000;
+
+    return {
+      eccentric: round(outbound === 'eccentric' ? out : back),
+      pause: round(pause),
+      concentric: round(outbound === 'eccentric' ? back : out),
+      timeUnderTension: round((timestamp - startedAt) / 1000)
+    };
+  }
+
+  reset(): void {
+    this.startedAt = null;
+    this.samples = [];
+    this.extreme = -Infinity;
+    this.hasLeftPeak = false;
+  }
+}
+
+export const summarizeTempo = (tempos: RepTempo[]): TempoStats | null => {
+  if (tempos.length === 0) return null;
+
+  const mean = (pick: (tempo: RepTempo) => number) =>
+    round(tempos.reduce((sum, tempo) => sum + pick(tempo), 0) / tempos.length);
+
+  return {
+    repCount: tempos.length,
+    eccentric: mean(tempo => tempo.eccentric),
+    pause: mean(tempo => tempo.pause),
+    concentric: mean(tempo => tempo.concentric),
+    timeUnderTension: round(tempos.reduce((sum, tempo) => sum + tempo.timeUnderTension, 0))
+  };
+};
@@ -0,0 +1,106 @@
+import { PoseAssetError, PoseDetector, PoseModelVariant, PoseResults } from './pose-detection';
+
+export type PoseWorkerRequest =
+  | { type: 'init'; variant: PoseModelVariant }
+  | { type: 'detect'; id: number; frame: ImageBitmap; timestamp: number }
+  | { type: 'dispose' };
+
+export type PoseWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'result'; id: number; results: PoseResults | null }
+  | { type: 'error'; message: string };
+
+// Runs MediaPipe inference off the main thread. Frames are sent to the worker as
+// ImageBitmaps and landmarks come back; drawing stays on the main thread.
+export class WorkerPoseDetector extends PoseDetector {
+  private worker: Worker | null = null;
+  private initPromise: Promise<void> | null = null;
+  private nextRequestId = 0;
+  private pending = new Map<number, (results: PoseResults | null) => void>();
+
+  async initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = new Promise<void>((resolve, reject) => {
+        const worker = new Worker(new URL('./pose-worker.ts', import.meta.url));
+        this.worker = worker;
+
+        // Rejects a start still in progress; once running, drops the worker so pending
+        // frames resolve to null and the next call starts a fresh one
+        const fail = (error: Error) => {
+          reject(error);
+          if (this.worker === worker) this.dispose();
+        };
+
+        worker.onmessage = (event: MessageEvent<PoseWorkerResponse>) => {
+          const message = event.data;
+          switch (message.type) {
+            case 'ready':
+              resolve();
+              break;
+            case 'result':
+              this.pending.get(message.id)?.(message.results);
+              this.pending.delete(message.id);
+              break;
+            case 'error':
+              console.error('Pose worker error:', message.message);
+              fail(new PoseAssetError(message.message));
+              break;
+          }
+        };
+
+        worker.onerror = (event) => {
+          console.error('Pose worker crashed:', event.message);
+          fail(new Error(event.message));
+        };
+
+        this.post({ type: 'init', variant: this.modelVariant });
+      });
+
+      // Allow a later call to retry after a failed start
+      this.initPromise.catch(() => this.dispose());
+    }
+
+    return this.initPromise;
+  }
+
+  async detectPose(videoElement: HTMLVideoElement, timestamp: number): Promise<PoseResults | null> {
+    await this.initialize();
+
+    try {
+      const frame = await createImageBitmap(videoElement);
+      const id = this.nextRequestId++;
+
+      return await new Promise<PoseResults | null>((resolve) => {
+        this.pending.set(id, resolve);
+        this.post({ type: 'detect', id, frame, timestamp }, [frame]);
+      });
+    } catch (error) {
+      console.error('Pose detection failed:', error);
+      return null;
+    }
+  }
+
+  dispose(): void {
+    if (this.worker) {
+      this.post({ type: 'dispose' });
+      this.worker.terminate();
+      this.worker = null;
+    }
+    this.pending.forEach(resolve => resolve(null));
+    this.pending.clear();
+    this.initPromise = null;
+  }
+
+  private post(message: PoseWorkerRequest, transfer: Transferable[] = []): void {
+    this.worker?.postMessage(message, transfer);
+  }
+}
+
+export const supportsWorkerDetection = (): boolean =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap === 'function';
+
+// Prefer worker inference where the browser supports it
+export const createPoseDetector = (variant: PoseModelVariant = 'lite'): PoseDetector =>
+  supportsWorkerDetection() ? new WorkerPoseDetector(variant) : new PoseDetector(variant);
@@ -0,0 +1,323 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, Activity, UserPlus, Users, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { SessionDetail } from '@/components/SessionDetail';
+import { PrescriptionBuilder } from '@/components/PrescriptionBuilder';
+import { Patient, SessionRecord, listPatients, listSessions, savePatient, saveSession } from '@/lib/session-db';
+import { formatDuration } from '@/lib/session-stats';
+import { Sex } from '@/lib/outcomes';
+import { usePoseStore } from '@/store/pose-store';
+import { cn } from '@/lib/utils';
+
+// Pseudo-patient grouping sessions recorded without a patient selected
+const UNASSIGNED = 'unassigned';
+
+const emptyPatientForm = { name: '', dateOfBirth: '', sex: '', condition: '' };
+
+const SEX_NOT_RECORDED = 'notRecorded';
+
+const Clinician = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { setActivePatient } = usePoseStore();
+  const [selectedPatientId, setSelectedPatientId] = useState<string | null>(null);
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [patientForm, setPatientForm] = useState(emptyPatientForm);
+
+  const { data: patients = [] } = useQuery({ queryKey: ['patients'], queryFn: listPatients });
+  const { data: sessions = [] } = useQuery({ queryKey: ['sessions'], queryFn: listSessions });
+
+  const sessionsByPatient = useMemo(() => {
+    const groups: Record<string, SessionRecord[]> = {};
+    for (const session of sessions) {
+      const key = session.patientId ?? UNASSIGNED;
+      (groups[key] ??= []).push(session);
+    }
+    return groups;
+  }, [sessions]);
+
+  const selectedPatient = patients.find(patient => patient.id === selectedPatientId) ?? null;
+  const timeline = selectedPatientId ? sessionsByPatient[selectedPatientId] ?? [] : [];
+  const selectedSession = timeline.find(session => session.id === selectedSessionId) ?? null;
+
+  const selectPatient = (patientId: string) => {
+    setSelectedPatientId(patientId);
+    setSelectedSessionId(null);
+  };
+
+  const addPatient = useMutation({
+    mutationFn: (patient: Patient) => savePatient(patient),
+    onSuccess: (_, patient) => {
+      queryClient.invalidateQueries({ queryKey: ['patients'] });
+      setPatientForm(emptyPatientForm);
+      setDialogOpen(false);
+      selectPatient(patient.id);
+    }
+  });
+
+  const assignSession = useMutation({
+    mutationFn: (session: SessionRecord) => saveSession(session),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['sessions'] })
+  });
+
+  const handleAddPatient = () => {
+    addPatient.mutate({
+      id: crypto.randomUUID(),
+      name: patientForm.name.trim(),
+      dateOfBirth: patientForm.dateOfBirth || undefined,
+      sex: (patientForm.sex as Sex) || undefined,
+      condition: patientForm.condition.trim() || undefined,
+      createdAt: Date.now()
+    });
+  };
+
+  const handleStartSession = (patient: Patient) => {
+    setActivePatient(patient);
+    navigate('/live');
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b border-border/50 bg-card/50 backdrop-blur-sm sticky top-0 z-30">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate('/')}
+              className="text-muted-foreground hover:text-foreground"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Home
+            </Button>
+            <h1 className="text-xl font-semibold text-foreground">Clinician Portal</h1>
+          </div>
+
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <DialogTrigger asChild>
+              <Button size="sm" className="bg-medical hover:bg-medical/90 text-medical-foreground">
+                <UserPlus className="w-4 h-4 mr-2" />
+                Add Patient
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Add Patient</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="patient-name">Name</Label>
+                  <Input
+                    id="patient-name"
+                    value={patientForm.name}
+                    onChange={(e) => setPatientForm({ ...patientForm, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="patient-dob">Date of birth</Label>
+                  <Input
+                    id="patient-dob"
+                    type="date"
+                    value={patientForm.dateOfBirth}
+                    onChange={(e) => setPatientForm({ ...patientForm, dateOfBirth: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="patient-sex">Sex</Label>
+                  <Select
+                    value={patientForm.sex || SEX_NOT_RECORDED}
+                    onValueChange={(value) => setPatientForm({ ...patientForm, sex: value === SEX_NOT_RECORDED ? '' : value })}
+                  >
+                    <SelectTrigger id="patient-sex">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SEX_NOT_RECORDED}>Not recorded</SelectItem>
+                      <SelectItem value="female">Female</SelectItem>
+                      <SelectItem value="male">Male</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">Used to compare outcome tests with age norms</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="patient-condition">Condition</Label>
+                  <Input
+                    id="patient-condition"
+                    placeholder="e.g. ACL reconstruction, rotator cuff repair"
+                    value={patientForm.condition}
+                    onChange={(e) => setPatientForm({ ...patientForm, condition: e.target.value })}
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button
+                  onClick={handleAddPatient}
+                  disabled={!patientForm.name.trim() || addPatient.isPending}
+                  className="bg-medical hover:bg-medical/90 text-medical-foreground"
+                >
+                  Save Patient
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-6">
+        <div className="grid lg:grid-cols-[280px_1fr] gap-6">
+          {/* Patient list */}
+          <Card className="h-fit">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Users className="w-5 h-5 text-medical" />
+                Patients
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {patients.length === 0 && (
+                <p className="text-sm text-muted-foreground pb-2">Add a patient to start tracking their sessions.</p>
+              )}
+
+              {[...patients, { id: UNASSIGNED, name: 'Unassigned sessions' }].map(patient => (
+                <button
+                  key={patient.id}
+                  onClick={() => selectPatient(patient.id)}
+                  className={cn(
+                    'w-full flex items-center justify-between px-3 py-2 rounded-md text-left text-sm transition-colors',
+                    patient.id === UNASSIGNED && 'text-muted-foreground',
+                    selectedPatientId === patient.id ? 'bg-medical/10 text-medical' : 'hover:bg-muted'
+                  )}
+                >
+                  <span className="truncate">{patient.name}</span>
+                  <Badge variant="secondary">{sessionsByPatient[patient.id]?.length ?? 0}</Badge>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            {!selectedPatientId && (
+              <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+                <Card className="p-12 text-center">
+                  <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-medical/10 flex items-center justify-center">
+                    <Users className="w-8 h-8 text-medical" />
+                  </div>
+                  <h2 className="text-xl font-semibold mb-2">Select a patient</h2>
+                  <p className="text-muted-foreground">
+                    Review session timelines, rep-by-rep form data and leave notes. Everything is stored on this device.
+                  </p>
+                </Card>
+              </motion.div>
+            )}
+
+            {selectedPatientId && (
+              <Card>
+                <CardHeader>
+                  <div className="flex flex-wrap items-start justify-between gap-4">
+                    <div>
+                      <CardTitle className="text-lg">{selectedPatient?.name ?? 'Unassigned sessions'}</CardTitle>
+                      <CardDescription>
+                        {selectedPatient
+                          ? [
+                              selectedPatient.condition,
+                              selectedPatient.sex && (selectedPatient.sex === 'female' ? 'Female' : 'Male'),
+                              selectedPatient.dateOfBirth && `Born ${selectedPatient.dateOfBirth}`
+                            ]
+                              .filter(Boolean)
+                              .join(' · ') || 'No details recorded'
+                          : 'Sessions recorded without a patient selected'}
+                      </CardDescription>
+                    </div>
+
+                    {selectedPatient && (
+                      <Button
+                        size="sm"
+                        className="bg-medical hover:bg-medical/90 text-medical-foreground"
+                        onClick={() => handleStartSession(selectedPatient)}
+                      >
+                        <Activity className="w-4 h-4 mr-2" />
+                        Start Session
+                      </Button>
+                    )}
+                  </div>
+                </CardHeader>
+
+                {/* Session timeline */}
+                <CardContent>
+                  {timeline.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No sessions recorded yet.</p>
+                  ) : (
+                    <div className="relative border-l border-border ml-2 space-y-2">
+                      {timeline.map(session => (
+                        <button
+                          key={session.id}
+                          onClick={() => setSelectedSessionId(session.id)}
+                          className={cn(
+                            'relative w-full flex items-center justify-between gap-4 pl-6 pr-3 py-2 rounded-md text-left transition-colors',
+                            selectedSessionId === session.id ? 'bg-medical/10' : 'hover:bg-muted'
+                          )}
+                        >
+                          <span className="absolute -left-[5px] top-1/2 -translate-y-1/2 w-2.5 h-2.5 rounded-full bg-medical" />
+                          <div>
+                            <div className="text-sm font-medium">{session.exerciseName}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {new Date(session.startedAt).toLocaleString()} · {formatDuration(session.durationMs)}
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline">{session.repCount} reps</Badge>
+                            <Badge variant="outline" className="bg-health/10 border-health/30 text-health">
+                              {session.avgScore}
+                            </Badge>
+                            {session.flags.length > 0 && (
+                              <Badge variant="outline" className="bg-warning/10 border-warning/30 text-warning-foreground">
+                                {session.flags.length} fault{session.flags.length === 1 ? '' : 's'}
+                              </Badge>
+                            )}
+                            <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {selectedPatient && (
+              <PrescriptionBuilder key={selectedPatient.id} patientId={selectedPatient.id} />
+            )}
+
+            {selectedSession && (
+              <SessionDetail
+                session={selectedSession}
+                patients={patients}
+                onAssignPatient={(patientId) => assignSession.mutate({ ...selectedSession, patientId })}
+              />
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Clinician;
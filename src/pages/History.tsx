@@ -0,0 +1,312 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, Activity, BarChart3 } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { listSessions } from '@/lib/session-db';
+import { formatDuration, formatFlag, summarizeSession } from '@/lib/session-stats';
+import { EXERCISE_CONFIGS } from '@/lib/exercise-rules';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+
+const FLAG_COLORS = [
+  'hsl(var(--destructive))',
+  'hsl(var(--warning-amber))',
+  'hsl(var(--medical-blue))',
+  'hsl(var(--clinical-gray))',
+  'hsl(var(--health-green-dark))'
+];
+
+const repsConfig = {
+  reps: { label: 'Reps', color: 'hsl(var(--medical-blue))' }
+} satisfies ChartConfig;
+
+const scoreConfig = {
+  avgScore: { label: 'Avg Score', color: 'hsl(var(--health-green))' }
+} satisfies ChartConfig;
+
+const angleConfig = {
+  peakKnee: { label: 'Peak Knee', color: 'hsl(var(--medical-blue))' },
+  peakShoulder: { label: 'Peak Shoulder', color: 'hsl(var(--warning-amber))' }
+} satisfies ChartConfig;
+
+// Inclusive yyyy-mm-dd bounds from the date inputs, in local time
+const toDayStart = (value: string) => (value ? new Date(`${value}T00:00:00`).getTime() : -Infinity);
+const toDayEnd = (value: string) => (value ? new Date(`${value}T23:59:59.999`).getTime() : Infinity);
+
+const History = () => {
+  const navigate = useNavigate();
+  const [exerciseFilter, setExerciseFilter] = useState('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const { data: sessions = [], isLoading, error } = useQuery({
+    queryKey: ['sessions'],
+    queryFn: listSessions
+  });
+
+  const filteredSessions = useMemo(() => {
+    const from = toDayStart(fromDate);
+    const to = toDayEnd(toDate);
+    return sessions.filter(session =>
+      (exerciseFilter === 'all' || session.exercise === exerciseFilter) &&
+      session.startedAt >= from &&
+      session.startedAt <= to
+    );
+  }, [sessions, exerciseFilter, fromDate, toDate]);
+
+  // Charts read oldest to newest
+  const trend = useMemo(
+    () => filteredSessions.map(summarizeSession).reverse(),
+    [filteredSessions]
+  );
+
+  const flags = useMemo(
+    () => [...new Set(trend.flatMap(summary => Object.keys(summary.flagCounts)))],
+    [trend]
+  );
+
+  const faultConfig = useMemo(
+    () => Object.fromEntries(
+      flags.map((flag, index) => [flag, { label: formatFlag(flag), color: FLAG_COLORS[index % FLAG_COLORS.length] }])
+    ) satisfies ChartConfig,
+    [flags]
+  );
+
+  const faultData = useMemo(
+    () => trend.map(summary => ({
+      label: summary.label,
+      ...Object.fromEntries(flags.map(flag => [flag, summary.flagCounts[flag] ?? 0]))
+    })),
+    [trend, flags]
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b border-border/50 bg-card/50 backdrop-blur-sm sticky top-0 z-30">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate('/')}
+              className="text-muted-foreground hover:text-foreground"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Home
+            </Button>
+            <h1 className="text-xl font-semibold text-foreground">Session History</h1>
+          </div>
+
+          <Button
+            size="sm"
+            className="bg-medical hover:bg-medical/90 text-medical-foreground"
+            onClick={() => navigate('/live')}
+          >
+            <Activity className="w-4 h-4 mr-2" />
+            New Session
+          </Button>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        {/* Filters */}
+        <Card className="p-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <span className="text-sm text-muted-foreground">Exercise</span>
+              <Select value={exerciseFilter} onValueChange={setExerciseFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All exercises</SelectItem>
+                  {Object.entries(EXERCISE_CONFIGS).map(([id, config]) => (
+                    <SelectItem key={id} value={id}>{config.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <span className="text-sm text-muted-foreground">From</span>
+              <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="w-40" />
+            </div>
+
+            <div className="space-y-1">
+              <span className="text-sm text-muted-foreground">To</span>
+              <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="w-40" />
+            </div>
+
+            <Badge variant="outline" className="ml-auto bg-medical/10 border-medical/30 text-medical">
+              {filteredSessions.length} session{filteredSessions.length === 1 ? '' : 's'}
+            </Badge>
+          </div>
+        </Card>
+
+        {error && (
+          <Card className="p-6 border-destructive/50 text-destructive">
+            Unable to load session history from this browser.
+          </Card>
+        )}
+
+        {!isLoading && !error && filteredSessions.length === 0 && (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+            <Card className="p-12 text-center">
+              <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-medical/10 flex items-center justify-center">
+                <BarChart3 className="w-8 h-8 text-medical" />
+              </div>
+              <h2 className="text-xl font-semibold mb-2">No sessions yet</h2>
+              <p className="text-muted-foreground">
+                Completed sessions are saved on this device and will appear here.
+              </p>
+            </Card>
+          </motion.div>
+        )}
+
+        {filteredSessions.length > 0 && (
+          <>
+            {/* Trend charts */}
+            <div className="grid lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Reps per Session</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={repsConfig} className="h-64 w-full">
+                    <BarChart data={trend}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="reps" fill="var(--color-reps)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Average Score</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={scoreConfig} className="h-64 w-full">
+                    <LineChart data={trend}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                      <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Line dataKey="avgScore" stroke="var(--color-avgScore)" strokeWidth={2} dot />
+                    </LineChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Peak Joint Angle</CardTitle>
+                  <CardDescription>Deepest knee bend and highest arm raise per session (degrees)</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={angleConfig} className="h-64 w-full">
+                    <LineChart data={trend}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                      <YAxis tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Line dataKey="peakKnee" stroke="var(--color-peakKnee)" strokeWidth={2} dot connectNulls />
+                      <Line dataKey="peakShoulder" stroke="var(--color-peakShoulder)" strokeWidth={2} dot connectNulls />
+                    </LineChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Fault Frequency</CardTitle>
+                  <CardDescription>Reps flagged per session, by fault</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {flags.length === 0 ? (
+                    <div className="h-64 flex items-center justify-center text-sm text-muted-foreground">
+                      No faults recorded in these sessions
+                    </div>
+                  ) : (
+                    <ChartContainer config={faultConfig} className="h-64 w-full">
+                      <BarChart data={faultData}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        {flags.map(flag => (
+                          <Bar key={flag} dataKey={flag} stackId="faults" fill={`var(--color-${flag})`} />
+                        ))}
+                      </BarChart>
+                    </ChartContainer>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Session list */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Sessions</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Exercise</TableHead>
+                      <TableHead className="text-right">Reps</TableHead>
+                      <TableHead className="text-right">Avg Score</TableHead>
+                      <TableHead className="text-right">Duration</TableHead>
+                      <TableHead>Flags</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredSessions.map(session => (
+                      <TableRow key={session.id}>
+                        <TableCell>{new Date(session.startedAt).toLocaleString()}</TableCell>
+                        <TableCell>{session.exerciseName}</TableCell>
+                        <TableCell className="text-right">{session.repCount}</TableCell>
+                        <TableCell className="text-right">{session.avgScore}</TableCell>
+                        <TableCell className="text-right">{formatDuration(session.durationMs)}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {session.flags.map(flag => (
+                              <Badge key={flag} variant="secondary">{formatFlag(flag)}</Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default History;
@@ -76,6 +76,16 @@ const Index = () => {
               <Users className="w-5 h-5 mr-2" />
               Clinician Portal
             </Button>
+
+            <Button
+              size="lg"
+              variant="outline"
+              className="border-medical/30 text-medical hover:bg-medical/5"
+              onClick={() => navigate('/history')}
+            >
+              <BarChart3 className="w-5 h-5 mr-2" />
+              View Progress
+            </Button>
           </div>
         </motion.div>
 
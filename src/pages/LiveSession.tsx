@@ -1,50 +1,132 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowLeft, Play, Square, Settings, Volume2, VolumeX } from 'lucide-react';
+import { ArrowLeft, Play, Square, Settings, Volume2, VolumeX, RefreshCw, Download } from 'lucide-react';
 import { usePoseStore } from '@/store/pose-store';
-import { PoseDetector } from '@/lib/pose-detection';
-import { ExerciseAnalyzer } from '@/lib/exercise-rules';
+import { PoseAssetError, PoseDetector, PoseModelVariant } from '@/lib/pose-detection';
+import { createPoseDetector } from '@/lib/worker-pose-detector';
+import { ExerciseAnalyzer, ExerciseConfig, SetEvent, SetProgress } from '@/lib/exercise-rules';
+import { EXERCISE_DEFINITIONS } from '@/lib/exercises';
+import { formatTempo } from '@/lib/tempo';
+import { formatSideSetting } from '@/lib/sides';
+import { formatBalanceCondition } from '@/lib/balance';
+import { SessionRecorder, downloadRecording } from '@/lib/session-recorder';
+import { LandmarkSmoother, SmoothingMethod, SmoothingSettings } from '@/lib/landmark-smoothing';
 import { CameraFeed } from '@/components/CameraFeed';
 import { PoseOverlay } from '@/components/PoseOverlay';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Slider } from '@/components/ui/slider';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ExerciseSelector } from '@/components/ExerciseSelector';
 
+// The parameter each smoothing method exposes in the settings panel
+const SMOOTHING_CONTROLS: Record<SmoothingMethod, {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  get: (settings: SmoothingSettings) => number;
+  set: (settings: SmoothingSettings, value: number) => Partial<SmoothingSettings>;
+}> = {
+  oneEuro: {
+    label: 'Min Cutoff (Hz)',
+    min: 0.1,
+    max: 5,
+    step: 0.1,
+    get: (settings) => settings.oneEuro.minCutoff,
+    set: (settings, value) => ({ oneEuro: { ...settings.oneEuro, minCutoff: value } })
+  },
+  ema: {
+    label: 'Responsiveness',
+    min: 0.05,
+    max: 1,
+    step: 0.05,
+    get: (settings) => settings.ema.alpha,
+    set: (settings, value) => ({ ema: { ...settings.ema, alpha: value } })
+  },
+  kalman: {
+    label: 'Measurement Noise',
+    min: 0.01,
+    max: 1,
+    step: 0.01,
+    get: (settings) => settings.kalman.measurementNoise,
+    set: (settings, value) => ({ kalman: { ...settings.kalman, measurementNoise: value } })
+  }
+};
+
+const speak = (message: string, volume: number) => {
+  if (!('speechSynthesis' in window)) return;
+  const utterance = new SpeechSynthesisUtterance(message);
+  utterance.volume = volume;
+  utterance.rate = 0.9;
+  speechSynthesis.speak(utterance);
+};
+
+const describeSetEvent = (event: SetEvent, set: SetProgress, config: ExerciseConfig): string => {
+  switch (event) {
+    case 'setCompleted': return `Set ${set.current} complete. Rest for ${config.restSeconds} seconds.`;
+    case 'restEnded': return `Rest over. Start set ${set.current} of ${set.total}.`;
+    case 'allSetsCompleted': return 'All sets complete. Great work!';
+  }
+};
+
 export default function LiveSession() {
   const poseDetectorRef = useRef<PoseDetector | null>(null);
   const exerciseAnalyzerRef = useRef<ExerciseAnalyzer | null>(null);
+  const smoothersRef = useRef<{ image: LandmarkSmoother; world: LandmarkSmoother } | null>(null);
   const animationFrameRef = useRef<number>();
+  const recorderRef = useRef<SessionRecorder | null>(null);
   const [poseResults, setPoseResults] = useState(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [detectorError, setDetectorError] = useState<string | null>(null);
+  const [detectorAttempt, setDetectorAttempt] = useState(0);
 
   const {
     currentExercise,
     exerciseConfig,
+    activePatient,
     isRecording,
     isCameraActive,
     videoElement,
+    mediaStream,
+    recordedVideo,
     metrics,
     showFeedback,
     feedbackVolume,
+    modelVariant,
+    smoothing,
     setRecording,
+    setRecordedVideo,
     updateMetrics,
     toggleFeedback,
     setFeedbackVolume,
+    setModelVariant,
+    setSmoothing,
+    startSession,
     reset
   } = usePoseStore();
 
-  // Initialize pose detector
+  const smoothingControl = SMOOTHING_CONTROLS[smoothing.method];
+
+  // Initialize pose detector, again whenever the model variant changes or on retry
   useEffect(() => {
     const initDetector = async () => {
+      setDetectorError(null);
       try {
-        poseDetectorRef.current = new PoseDetector();
-        exerciseAnalyzerRef.current = new ExerciseAnalyzer();
+        poseDetectorRef.current = createPoseDetector(modelVariant);
+        exerciseAnalyzerRef.current ??= new ExerciseAnalyzer();
         await poseDetectorRef.current.initialize();
       } catch (error) {
         console.error('Failed to initialize pose detector:', error);
+        setDetectorError(
+          error instanceof PoseAssetError
+            ? error.message
+            : 'Pose detection could not be started on this device.'
+        );
       }
     };
 
@@ -58,11 +140,46 @@ export default function LiveSession() {
         cancelAnimationFrame(animationFrameRef.current);
       }
     };
+  }, [modelVariant, detectorAttempt]);
+
+  // A session runs while the camera is on for the chosen exercise and is saved to
+  // local history when the camera stops or the page is left
+  useEffect(() => {
+    if (!isCameraActive || !currentExercise || !exerciseConfig) return;
+
+    exerciseAnalyzerRef.current?.reset();
+    startSession();
+
+    return () => {
+      finishSession();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isCameraActive, currentExercise, exerciseConfig]);
+
+  // Finish the recording if the camera is switched off mid-session
+  useEffect(() => {
+    if (!mediaStream && recorderRef.current) {
+      stopRecording();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mediaStream]);
+
+  // Drop any in-progress recording when leaving the page
+  useEffect(() => () => {
+    recorderRef.current?.stop().catch(() => undefined);
   }, []);
 
+  // Restart smoothing whenever its settings change
+  useEffect(() => {
+    smoothersRef.current = {
+      image: new LandmarkSmoother(smoothing),
+      world: new LandmarkSmoother(smoothing)
+    };
+  }, [smoothing]);
+
   // Main pose detection loop
   useEffect(() => {
-    if (!isCameraActive || !videoElement || !poseDetectorRef.current || !exerciseAnalyzerRef.current || !currentExercise || !exerciseConfig) {
+    if (detectorError || !isCameraActive || !videoElement || !poseDetectorRef.current || !exerciseAnalyzerRef.current || !currentExercise || !exerciseConfig) {
       return;
     }
 
@@ -76,34 +193,49 @@ export default function LiveSession() {
         const results = await poseDetectorRef.current!.detectPose(videoElement, timestamp);
         
         if (results && results.landmarks.length > 0) {
-          setPoseResults(results);
-          
-          // Analyze exercise
-          const landmarks = results.landmarks[0];
-          let analysis;
+          // Smooth landmarks before drawing and analysis
+          const smoothers = smoothersRef.current;
+          const rawWorldLandmarks = results.worldLandmarks[0];
+          const landmarks = smoothers
+            ? smoothers.image.smooth(results.landmarks[0], timestamp)
+            : results.landmarks[0];
+          const worldLandmarks = smoothers && rawWorldLandmarks
+            ? smoothers.world.smooth(rawWorldLandmarks, timestamp)
+            : rawWorldLandmarks;
+          setPoseResults({ ...results, landmarks: [landmarks] });
           
-          if (currentExercise === 'squat') {
-            analysis = exerciseAnalyzerRef.current!.analyzeSquat(landmarks, exerciseConfig);
-          } else {
-            analysis = exerciseAnalyzerRef.current!.analyzeShoulderAbduction(landmarks, exerciseConfig);
-          }
+          // Analyze exercise, using 3D world landmarks for joint angles where available.
+          // The frame time is moved onto the epoch so reps line up with the recording.
+          const analysis = exerciseAnalyzerRef.current!.analyze(
+            currentExercise,
+            landmarks,
+            exerciseConfig,
+            worldLandmarks,
+            performance.timeOrigin + timestamp
+          );
           
           updateMetrics({
             repCount: analysis.repCount,
             currentScore: analysis.score,
+            averageScore: analysis.averageScore,
             feedback: analysis.feedback.map(f => f.message),
             angles: analysis.angles,
-            isInPosition: analysis.isInPosition
+            isInPosition: analysis.isInPosition,
+            bodyInFrame: analysis.bodyInFrame,
+            set: analysis.set,
+            hold: analysis.hold,
+            side: analysis.side,
+            test: analysis.test,
+            balance: analysis.balance,
+            view: analysis.view
           });
 
           // Voice feedback (simplified for demo)
-          if (showFeedback && feedbackVolume > 0 && analysis.feedback.length > 0) {
-            const feedback = analysis.feedback[0];
-            if (feedback.type === 'error' && 'speechSynthesis' in window) {
-              const utterance = new SpeechSynthesisUtterance(feedback.message);
-              utterance.volume = feedbackVolume;
-              utterance.rate = 0.9;
-              speechSynthesis.speak(utterance);
+          if (showFeedback && feedbackVolume > 0) {
+            if (analysis.setEvent) {
+              speak(describeSetEvent(analysis.setEvent, analysis.set, exerciseConfig), feedbackVolume);
+            } else if (analysis.feedback[0]?.type === 'error') {
+              speak(analysis.feedback[0].message, feedbackVolume);
             }
           }
         }
@@ -123,21 +255,81 @@ export default function LiveSession() {
         cancelAnimationFrame(animationFrameRef.current);
       }
     };
-  }, [isCameraActive, videoElement, currentExercise, exerciseConfig, isProcessing, showFeedback, feedbackVolume, updateMetrics]);
+  }, [detectorError, isCameraActive, videoElement, currentExercise, exerciseConfig, isProcessing, showFeedback, feedbackVolume, updateMetrics]);
 
   const handleExerciseSelect = (exercise: string) => {
     // Exercise selection handled by ExerciseSelector component
   };
 
+  const finishSession = () => {
+    const analyzer = exerciseAnalyzerRef.current;
+    if (!analyzer) return;
+
+    usePoseStore.getState().endSession({
+      reps: [...analyzer.getRepData()],
+      scoreTimeline: [...analyzer.getScoreTimeline()],
+      sets: analyzer.getSetSummaries(),
+      hold: analyzer.getHoldStats(),
+      test: analyzer.getTestResult(),
+      balance: analyzer.getBalanceResult()
+    });
+  };
+
+  const discardRecording = () => {
+    recorderRef.current?.stop().catch(() => undefined);
+    recorderRef.current = null;
+  };
+
   const handleBackToSelection = () => {
+    finishSession();
+    discardRecording();
     reset();
     if (animationFrameRef.current) {
       cancelAnimationFrame(animationFrameRef.current);
     }
   };
 
+  const startRecording = () => {
+    if (!mediaStream || !SessionRecorder.isSupported()) return;
+
+    try {
+      const recorder = new SessionRecorder();
+      const startedAt = recorder.start(mediaStream);
+      recorderRef.current = recorder;
+      setRecordedVideo(null);
+      setRecording(true, startedAt);
+    } catch (error) {
+      console.error('Failed to start recording:', error);
+    }
+  };
+
+  const stopRecording = async () => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    if (!recorder) return;
+
+    try {
+      const recording = await recorder.stop();
+      setRecordedVideo(recording.blob);
+      setRecording(false, recording.stoppedAt);
+    } catch (error) {
+      console.error('Failed to stop recording:', error);
+      setRecording(false);
+    }
+  };
+
   const toggleRecording = () => {
-    setRecording(!isRecording);
+    if (isRecording) {
+      stopRecording();
+    } else {
+      startRecording();
+    }
+  };
+
+  const handleDownloadRecording = () => {
+    if (!recordedVideo) return;
+    const date = new Date().toISOString().slice(0, 10);
+    downloadRecording(recordedVideo, `${currentExercise}-session-${date}`);
   };
 
   // Show exercise selector if no exercise is selected
@@ -145,6 +337,9 @@ export default function LiveSession() {
     return <ExerciseSelector onExerciseSelect={handleExerciseSelect} />;
   }
 
+  const isHold = Boolean(EXERCISE_DEFINITIONS[currentExercise]?.hold);
+  const isBalance = Boolean(EXERCISE_DEFINITIONS[currentExercise]?.balance);
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -166,6 +361,11 @@ export default function LiveSession() {
                 <Badge variant="outline" className="bg-medical/10 border-medical/30 text-medical">
                   {exerciseConfig?.name}
                 </Badge>
+                {activePatient && (
+                  <Badge variant="secondary">
+                    {activePatient.name}
+                  </Badge>
+                )}
                 {isRecording && (
                   <Badge variant="destructive" className="animate-pulse">
                     Recording
@@ -184,11 +384,22 @@ export default function LiveSession() {
                 <Settings className="w-4 h-4" />
               </Button>
               
+              {recordedVideo && !isRecording && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleDownloadRecording}
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Download Recording
+                </Button>
+              )}
+              
               <Button
                 variant={isRecording ? "destructive" : "medical"}
                 size="sm"
                 onClick={toggleRecording}
-                disabled={!isCameraActive}
+                disabled={!isCameraActive || !SessionRecorder.isSupported()}
               >
                 {isRecording ? (
                   <>
@@ -243,6 +454,63 @@ export default function LiveSession() {
                   </div>
                 </div>
               </div>
+
+              <div className="flex flex-wrap items-center gap-4 max-w-2xl mt-4">
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-muted-foreground">Pose Model:</span>
+                  <Select
+                    value={modelVariant}
+                    onValueChange={(variant) => setModelVariant(variant as PoseModelVariant)}
+                  >
+                    <SelectTrigger className="w-28 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="lite">Lite</SelectItem>
+                      <SelectItem value="full">Full</SelectItem>
+                      <SelectItem value="heavy">Heavy</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={smoothing.enabled}
+                    onCheckedChange={(enabled) => setSmoothing({ enabled })}
+                  />
+                  <span className="text-sm text-muted-foreground">Landmark Smoothing</span>
+                </div>
+
+                <Select
+                  value={smoothing.method}
+                  onValueChange={(method) => setSmoothing({ method: method as SmoothingMethod })}
+                  disabled={!smoothing.enabled}
+                >
+                  <SelectTrigger className="w-40 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="oneEuro">One Euro</SelectItem>
+                    <SelectItem value="ema">Moving Average</SelectItem>
+                    <SelectItem value="kalman">Kalman</SelectItem>
+                  </SelectContent>
+                </Select>
+
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-muted-foreground">{smoothingControl.label}:</span>
+                  <div className="w-32">
+                    <Slider
+                      value={[smoothingControl.get(smoothing)]}
+                      onValueChange={(value) => setSmoothing(smoothingControl.set(smoothing, value[0]))}
+                      min={smoothingControl.min}
+                      max={smoothingControl.max}
+                      step={smoothingControl.step}
+                      disabled={!smoothing.enabled}
+                      className="w-full"
+                    />
+                  </div>
+                </div>
+              </div>
             </div>
           </motion.div>
         )}
@@ -260,6 +528,24 @@ export default function LiveSession() {
                   poseResults={poseResults} 
                   detector={poseDetectorRef.current} 
                 />
+                {detectorError && (
+                  <div className="absolute bottom-4 left-4 right-4 z-30">
+                    <Alert variant="destructive" className="bg-card/95 backdrop-blur-sm">
+                      <AlertTitle>Pose detection unavailable</AlertTitle>
+                      <AlertDescription className="flex items-center justify-between gap-4">
+                        <span>{detectorError}</span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setDetectorAttempt((attempt) => attempt + 1)}
+                        >
+                          <RefreshCw className="w-4 h-4 mr-2" />
+                          Retry
+                        </Button>
+                      </AlertDescription>
+                    </Alert>
+                  </div>
+                )}
               </div>
             </Card>
           </div>
@@ -272,27 +558,99 @@ export default function LiveSession() {
               
               <div className="space-y-4">
                 <div className="flex justify-between items-center">
-                  <span className="text-sm text-muted-foreground">Target Reps</span>
-                  <span className="font-medium">{exerciseConfig?.targetReps}</span>
+                  <span className="text-sm text-muted-foreground">Set</span>
+                  <span className="font-medium">{metrics.set.current} of {metrics.set.total}</span>
                 </div>
+
+                {isBalance && exerciseConfig ? (
+                  <>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-muted-foreground">Condition</span>
+                      <span className="font-medium">{formatBalanceCondition(exerciseConfig.stance, exerciseConfig.vision)}</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-muted-foreground">Time Left</span>
+                      <span className="font-medium">
+                        {metrics.balance?.remainingSeconds ?? EXERCISE_DEFINITIONS[currentExercise].balance.durationSeconds}s
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-muted-foreground">Losses of Balance</span>
+                      <span className="font-medium">{metrics.balance?.lossCount ?? 0}</span>
+                    </div>
+                  </>
+                ) : metrics.test ? (
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-muted-foreground">
+                      {metrics.test.remainingSeconds !== null ? 'Time Left' : 'Test Time'}
+                    </span>
+                    <span className="font-medium">
+                      {metrics.test.remainingSeconds ?? metrics.test.elapsedSeconds.toFixed(1)}s
+                    </span>
+                  </div>
+                ) : (
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-muted-foreground">{isHold ? 'Target Holds' : 'Target Reps'}</span>
+                    <span className="font-medium">{exerciseConfig?.targetReps}</span>
+                  </div>
+                )}
+
+                {isHold && exerciseConfig && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-muted-foreground">Hold Time</span>
+                    <span className="font-medium">
+                      {metrics.hold?.elapsedSeconds.toFixed(1) ?? '0.0'}s /{' '}
+                      {metrics.hold?.targetSeconds ?? (exerciseConfig.holdSeconds || EXERCISE_DEFINITIONS[currentExercise].hold.targetSeconds)}s
+                    </span>
+                  </div>
+                )}
                 
-                <div className="flex justify-between items-center">
-                  <span className="text-sm text-muted-foreground">Completed</span>
-                  <span className="font-medium text-health">{metrics.repCount}</span>
-                </div>
+                {!isHold && !isBalance && !metrics.test && exerciseConfig && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-muted-foreground">Tempo</span>
+                    <span className="font-medium">{formatTempo(exerciseConfig.tempo)}</span>
+                  </div>
+                )}
+
+                {!isBalance && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-muted-foreground">Completed This Set</span>
+                    <span className="font-medium text-health">{metrics.repCount}</span>
+                  </div>
+                )}
+
+                {metrics.side && (
+                  <>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-muted-foreground">Side</span>
+                      <span className="font-medium">{formatSideSetting(metrics.side.setting)}</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-muted-foreground">Left / Right Reps</span>
+                      <span className="font-medium">{metrics.side.repCounts.left} / {metrics.side.repCounts.right}</span>
+                    </div>
+                  </>
+                )}
                 
-                <div className="flex justify-between items-center">
-                  <span className="text-sm text-muted-foreground">Avg Score</span>
-                  <span className="font-medium">{metrics.currentScore}</span>
-                </div>
+                {!isBalance && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-muted-foreground">Avg Rep Score</span>
+                    <span className="font-medium">{metrics.averageScore}</span>
+                  </div>
+                )}
                 
                 <div className="pt-2 border-t border-border">
-                  <div className="text-sm text-muted-foreground mb-2">Progress</div>
+                  <div className="text-sm text-muted-foreground mb-2">{isBalance ? 'Test Progress' : 'Set Progress'}</div>
                   <div className="w-full bg-clinical-light rounded-full h-2">
                     <div 
                       className="bg-gradient-feedback h-2 rounded-full transition-all duration-300"
                       style={{ 
-                        width: `${Math.min((metrics.repCount / (exerciseConfig?.targetReps || 10)) * 100, 100)}%` 
+                        width: `${Math.min(
+                          isBalance
+                            ? ((metrics.balance?.elapsedSeconds ?? 0) / EXERCISE_DEFINITIONS[currentExercise].balance.durationSeconds) * 100
+                            : (metrics.repCount / (exerciseConfig?.targetReps || 10)) * 100,
+                          100
+                        )}%` 
                       }}
                     />
                   </div>
@@ -304,25 +662,11 @@ export default function LiveSession() {
             <Card className="p-6">
               <h3 className="font-semibold text-lg mb-4">Instructions</h3>
               
-              {currentExercise === 'squat' && (
-                <div className="space-y-3 text-sm text-muted-foreground">
-                  <p>• Stand with feet shoulder-width apart</p>
-                  <p>• Lower your body as if sitting back into a chair</p>
-                  <p>• Keep your chest up and knees tracking over toes</p>
-                  <p>• Descend until thighs are parallel to floor</p>
-                  <p>• Push through heels to return to start</p>
-                </div>
-              )}
-              
-              {currentExercise === 'shoulderAbduction' && (
-                <div className="space-y-3 text-sm text-muted-foreground">
-                  <p>• Start with arms at your sides</p>
-                  <p>• Raise both arms out to the sides</p>
-                  <p>• Lift to shoulder height (90 degrees)</p>
-                  <p>• Keep shoulders relaxed, don't shrug</p>
-                  <p>• Lower slowly and controlled</p>
-                </div>
-              )}
+              <div className="space-y-3 text-sm text-muted-foreground">
+                {EXERCISE_DEFINITIONS[currentExercise]?.instructions.map((instruction, idx) => (
+                  <p key={idx}>• {instruction}</p>
+                ))}
+              </div>
             </Card>
           </div>
         </div>
@@ -1,25 +1,59 @@
 import { create } from 'zustand';
-import { ExerciseConfig } from '../lib/exercise-rules';
+import {
+  ExerciseConfig,
+  RepData,
+  ScorePoint,
+  SetProgress,
+  SetSummary,
+  SideProgress,
+  TestProgress
+} from '../lib/exercise-rules';
+import { Patient, SessionRecord, saveSession } from '../lib/session-db';
+import { DEFAULT_SMOOTHING_SETTINGS, SmoothingSettings } from '../lib/landmark-smoothing';
+import { TempoStats, summarizeTempo } from '../lib/tempo';
+import { HoldProgress, HoldStats } from '../lib/hold';
+import { SideStats, summarizeSides } from '../lib/sides';
+import { OutcomeResult, TestResult, scoreOutcome } from '../lib/outcomes';
+import { BalanceProgress, BalanceResult } from '../lib/balance';
+import { ViewProgress } from '../lib/camera-view';
+import { PoseModelVariant } from '../lib/pose-detection';
 
 export interface ExerciseMetrics {
   repCount: number;
   currentScore: number;
+  // Mean of completed rep scores, 0 before the first rep
+  averageScore: number;
   feedback: string[];
   angles: {
     knee: number;
     hip: number;
     shoulder: number;
+    ankle: number;
   };
   isInPosition: boolean;
+  // False while required landmarks are out of frame; scoring and rep counting pause
+  bodyInFrame: boolean;
+  set: SetProgress;
+  // Null for repetition exercises
+  hold: HoldProgress | null;
+  // Null unless the exercise is done one side at a time
+  side: SideProgress | null;
+  // Null unless the exercise is a timed test
+  test: TestProgress | null;
+  // Null unless the exercise is a balance test
+  balance: BalanceProgress | null;
+  view: ViewProgress;
 }
 
-export type ExerciseType = 'squat' | 'shoulderAbduction';
+// Any exercise id registered in EXERCISE_DEFINITIONS, e.g. 'squat'
+export type ExerciseType = string;
 
 interface PoseState {
   // Camera and detection state
   isRecording: boolean;
   isCameraActive: boolean;
   videoElement: HTMLVideoElement | null;
+  mediaStream: MediaStream | null;
   canvasElement: HTMLCanvasElement | null;
   
   // Exercise state
@@ -28,6 +62,8 @@ interface PoseState {
   metrics: ExerciseMetrics;
   
   // Session data
+  // Patient the clinician started this session for, if any
+  activePatient: Patient | null;
   sessionStartTime: number | null;
   sessionData: {
     repCount: number;
@@ -35,29 +71,52 @@ interface PoseState {
     totalTime: number;
     exercise: ExerciseType;
     flags: string[];
+    sets: SetSummary[];
+    tempo: TempoStats | null;
+    hold: HoldStats | null;
+    sides: SideStats | null;
+    outcome: OutcomeResult | null;
+    balance: BalanceResult | null;
   } | null;
   
   // Recording state
   recordedVideo: Blob | null;
   recordingStartTime: number | null;
+  recordingEndTime: number | null;
   
   // UI state
   showFeedback: boolean;
   feedbackVolume: number;
   
+  // Pose pipeline settings
+  modelVariant: PoseModelVariant;
+  smoothing: SmoothingSettings;
+  
   // Actions
-  setRecording: (recording: boolean) => void;
+  setRecording: (recording: boolean, timestamp?: number) => void;
   setCameraActive: (active: boolean) => void;
   setVideoElement: (element: HTMLVideoElement | null) => void;
+  setMediaStream: (stream: MediaStream | null) => void;
   setCanvasElement: (element: HTMLCanvasElement | null) => void;
   setCurrentExercise: (exercise: ExerciseType | null) => void;
   setExerciseConfig: (config: ExerciseConfig | null) => void;
+  setActivePatient: (patient: Patient | null) => void;
   updateMetrics: (metrics: ExerciseMetrics) => void;
   startSession: () => void;
-  endSession: () => void;
+  // Saves the finished session to local history; resolves to null if nothing was stored
+  endSession: (details: {
+    reps: RepData[];
+    scoreTimeline: ScorePoint[];
+    sets: SetSummary[];
+    hold: HoldStats | null;
+    test: TestResult | null;
+    balance: BalanceResult | null;
+  }) => Promise<SessionRecord | null>;
   setRecordedVideo: (video: Blob | null) => void;
   toggleFeedback: () => void;
   setFeedbackVolume: (volume: number) => void;
+  setModelVariant: (variant: PoseModelVariant) => void;
+  setSmoothing: (settings: Partial<SmoothingSettings>) => void;
   reset: () => void;
 }
 
@@ -66,30 +125,45 @@ export const usePoseStore = create<PoseState>((set, get) => ({
   isRecording: false,
   isCameraActive: false,
   videoElement: null,
+  mediaStream: null,
   canvasElement: null,
   currentExercise: null,
   exerciseConfig: null,
   metrics: {
     repCount: 0,
     currentScore: 0,
+    averageScore: 0,
     feedback: [],
-    angles: { knee: 0, hip: 0, shoulder: 0 },
-    isInPosition: false
+    angles: { knee: 0, hip: 0, shoulder: 0, ankle: 0 },
+    isInPosition: false,
+    bodyInFrame: true,
+    set: { current: 1, total: 1, phase: 'active', restEndsAt: null },
+    hold: null,
+    side: null,
+    test: null,
+    balance: null,
+    view: { current: null, target: null, shouldTurn: false }
   },
+  activePatient: null,
   sessionStartTime: null,
   sessionData: null,
   recordedVideo: null,
   recordingStartTime: null,
+  recordingEndTime: null,
   showFeedback: true,
   feedbackVolume: 0.7,
+  modelVariant: 'lite',
+  smoothing: DEFAULT_SMOOTHING_SETTINGS,
 
   // Actions
-  setRecording: (recording) => {
+  // Timestamps share the Date.now() clock with RepData.timestamp, so reps can be
+  // located in the recorded video by subtracting recordingStartTime
+  setRecording: (recording, timestamp = Date.now()) => {
     set({ isRecording: recording });
     if (recording) {
-      set({ recordingStartTime: Date.now() });
+      set({ recordingStartTime: timestamp, recordingEndTime: null });
     } else {
-      set({ recordingStartTime: null });
+      set({ recordingEndTime: timestamp });
     }
   },
 
@@ -97,12 +171,16 @@ export const usePoseStore = create<PoseState>((set, get) => ({
 
   setVideoElement: (element) => set({ videoElement: element }),
 
+  setMediaStream: (stream) => set({ mediaStream: stream }),
+
   setCanvasElement: (element) => set({ canvasElement: element }),
 
   setCurrentExercise: (exercise) => set({ currentExercise: exercise }),
 
   setExerciseConfig: (config) => set({ exerciseConfig: config }),
 
+  setActivePatient: (patient) => set({ activePatient: patient }),
+
   updateMetrics: (metrics) => set({ metrics }),
 
   startSession: () => {
@@ -114,25 +192,81 @@ export const usePoseStore = create<PoseState>((set, get) => ({
         avgScore: 0,
         totalTime: 0,
         exercise: currentExercise!,
-        flags: []
+        flags: [],
+        sets: [],
+        tempo: null,
+        hold: null,
+        sides: null,
+        outcome: null,
+        balance: null
       }
     });
   },
 
-  endSession: () => {
-    const { sessionStartTime, metrics, currentExercise } = get();
-    if (sessionStartTime && currentExercise) {
-      const totalTime = Date.now() - sessionStartTime;
-      set({
-        sessionData: {
-          repCount: metrics.repCount,
-          avgScore: metrics.currentScore,
-          totalTime,
-          exercise: currentExercise,
-          flags: metrics.feedback.map(f => f)
-        },
-        sessionStartTime: null
-      });
+  endSession: async ({ reps, scoreTimeline, sets, hold, test, balance }) => {
+    const { sessionStartTime, currentExercise, exerciseConfig, activePatient } = get();
+    if (!sessionStartTime || !currentExercise || !exerciseConfig) return null;
+
+    const endedAt = Date.now();
+    const totalTime = endedAt - sessionStartTime;
+    // Averaged over whole-rep scores, never per-frame ones
+    const avgScore = reps.length > 0
+      ? Math.round(reps.reduce((sum, rep) => sum + rep.score, 0) / reps.length)
+      : 0;
+    const flags = [...new Set(reps.flatMap(rep => rep.flags))];
+    const tempo = summarizeTempo(reps.flatMap(rep => (rep.tempo ? [rep.tempo] : [])));
+    const sides = summarizeSides(reps);
+    const outcome = test ? scoreOutcome(test, activePatient, endedAt) : null;
+
+    set({
+      sessionData: {
+        repCount: reps.length,
+        avgScore,
+        totalTime,
+        exercise: currentExercise,
+        flags,
+        sets,
+        tempo,
+        hold,
+        sides,
+        outcome,
+        balance
+      },
+      sessionStartTime: null
+    });
+
+    // A hold that never reached its target time, a completed test with no stands,
+    // or any balance test that got started is still worth keeping
+    if (reps.length === 0 && !hold?.totalSeconds && !outcome?.completed && !balance) return null;
+
+    const record: SessionRecord = {
+      id: crypto.randomUUID(),
+      patientId: activePatient?.id,
+      exercise: currentExercise,
+      exerciseName: exerciseConfig.name,
+      config: exerciseConfig,
+      startedAt: sessionStartTime,
+      endedAt,
+      durationMs: totalTime,
+      repCount: reps.length,
+      avgScore,
+      reps,
+      scoreTimeline,
+      sets,
+      tempo,
+      hold,
+      sides,
+      outcome,
+      balance,
+      flags
+    };
+
+    try {
+      await saveSession(record);
+      return record;
+    } catch (error) {
+      console.error('Failed to save session:', error);
+      return null;
     }
   },
 
@@ -142,6 +276,10 @@ export const usePoseStore = create<PoseState>((set, get) => ({
 
   setFeedbackVolume: (volume) => set({ feedbackVolume: volume }),
 
+  setModelVariant: (variant) => set({ modelVariant: variant }),
+
+  setSmoothing: (settings) => set((state) => ({ smoothing: { ...state.smoothing, ...settings } })),
+
   reset: () => set({
     isRecording: false,
     currentExercise: null,
@@ -149,13 +287,22 @@ export const usePoseStore = create<PoseState>((set, get) => ({
     metrics: {
       repCount: 0,
       currentScore: 0,
+      averageScore: 0,
       feedback: [],
-      angles: { knee: 0, hip: 0, shoulder: 0 },
-      isInPosition: false
+      angles: { knee: 0, hip: 0, shoulder: 0, ankle: 0 },
+      isInPosition: false,
+      bodyInFrame: true,
+      set: { current: 1, total: 1, phase: 'active', restEndsAt: null },
+      hold: null,
+      side: null,
+      test: null,
+      balance: null,
+      view: { current: null, target: null, shouldTurn: false }
     },
     sessionStartTime: null,
     sessionData: null,
     recordedVideo: null,
-    recordingStartTime: null
+    recordingStartTime: null,
+    recordingEndTime: null
   })
 }));
\ No newline at end of file
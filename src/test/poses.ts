@@ -0,0 +1,98 @@
+import { PoseLandmark } from '@/lib/pose-detection';
+
+// Joint angles in degrees for a synthetic front-on pose; 180 is straight
+export interface PoseAngles {
+  leftKnee?: number;
+  rightKnee?: number;
+  // Shoulder-hip-knee, the same for both legs
+  hip?: number;
+  // Arm out from the side, 0 hanging down
+  leftShoulder?: number;
+  rightShoulder?: number;
+  // Forearm turned outward from the line of the upper arm
+  leftForearm?: number;
+  rightForearm?: number;
+  armsCrossed?: boolean;
+}
+
+const UPPER_ARM = 0.13;
+const FOREARM = 0.12;
+const THIGH = 0.2;
+const SHIN = 0.2;
+
+const radians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Rotates a direction by `degrees`, in image coordinates where y points down
+const rotate = ([x, y]: [number, number], degrees: number): [number, number] => {
+  const cos = Math.cos(radians(degrees));
+  const sin = Math.sin(radians(degrees));
+  return [x * cos - y * sin, x * sin + y * cos];
+};
+
+// Normalized image landmarks for a patient facing the camera. The subject's left
+// side sits at larger x, and the hips are directly below the shoulders.
+export const pose = ({
+  leftKnee = 180,
+  rightKnee = 180,
+  hip = 180,
+  leftShoulder = 0,
+  rightShoulder = 0,
+  leftForearm = 0,
+  rightForearm = 0,
+  armsCrossed = false
+}: PoseAngles = {}): PoseLandmark[] => {
+  const landmarks: PoseLandmark[] = Array.from({ length: 33 }, () => ({ x: 0.5, y: 0.15, z: 0, visibility: 1 }));
+  const put = (index: number, [x, y]: [number, number]) => {
+    landmarks[index] = { x, y, z: 0, visibility: 1 };
+  };
+
+  const sides = [
+    { sign: 1, shoulder: 11, elbow: 13, wrist: 15, hip: 23, knee: 25, ankle: 27, heel: 29, toe: 31, arm: leftShoulder, forearm: leftForearm, kneeAngle: leftKnee },
+    { sign: -1, shoulder: 12, elbow: 14, wrist: 16, hip: 24, knee: 26, ankle: 28, heel: 30, toe: 32, arm: rightShoulder, forearm: rightForearm, kneeAngle: rightKnee }
+  ];
+
+  for (const side of sides) {
+    const shoulder: [number, number] = [0.5 + side.sign * 0.1, 0.3];
+    const armDirection: [number, number] = [side.sign * Math.sin(radians(side.arm)), Math.cos(radians(side.arm))];
+    const forearmAngle = radians(side.arm + side.forearm);
+    const forearmDirection: [number, number] = [side.sign * Math.sin(forearmAngle), Math.cos(forearmAngle)];
+    const elbow: [number, number] = [shoulder[0] + armDirection[0] * UPPER_ARM, shoulder[1] + armDirection[1] * UPPER_ARM];
+    const wrist: [number, number] = armsCrossed
+      ? [0.5 - side.sign * 0.02, 0.4]
+      : [elbow[0] + forearmDirection[0] * FOREARM, elbow[1] + forearmDirection[1] * FOREARM];
+
+    // Thighs swing out to the side as the hip flexes; shins fold back under the knee
+    const hipPoint: [number, number] = [shoulder[0], 0.55];
+    const flexion = radians(180 - hip);
+    const thigh: [number, number] = [side.sign * Math.sin(flexion), Math.cos(flexion)];
+    const knee: [number, number] = [hipPoint[0] + thigh[0] * THIGH, hipPoint[1] + thigh[1] * THIGH];
+    const shin = rotate([-thigh[0], -thigh[1]], -side.sign * side.kneeAngle);
+    const ankle: [number, number] = [knee[0] + shin[0] * SHIN, knee[1] + shin[1] * SHIN];
+
+    put(side.shoulder, shoulder);
+    put(side.elbow, elbow);
+    put(side.wrist, wrist);
+    put(side.hip, hipPoint);
+    put(side.knee, knee);
+    put(side.ankle, ankle);
+    put(side.heel, [ankle[0] - side.sign * 0.01, ankle[1] + 0.02]);
+    put(side.toe, [ankle[0] + side.sign * 0.03, ankle[1] + 0.03]);
+  }
+
+  return landmarks;
+};
+
+export const FRAME_MS = 33;
+
+// One value per frame, moving linearly from `start` through each [value, milliseconds] step
+export const keyframes = (start: number, ...steps: Array<[number, number]>): number[] => {
+  const values: number[] = [];
+  let from = start;
+  for (const [to, ms] of steps) {
+    for (let elapsed = 0; elapsed < ms; elapsed += FRAME_MS) {
+      values.push(from + (to - from) * (elapsed / ms));
+    }
+    from = to;
+  }
+  return values;
+};